@@ -0,0 +1,34 @@
+import type { AdminRole } from "@shared/schema";
+
+// Every admin role can read admin dashboards; these gate the mutating actions
+export const adminPermissions = [
+  "admins:manage",
+  "audit:read",
+  "sms:read",
+  "accounts:manage",
+  "experts:manage",
+  "bookings:manage",
+  "pricing:manage",
+  "payouts:manage",
+  "content:manage",
+  "prompts:manage",
+  "data:refresh",
+] as const;
+
+export type AdminPermission = typeof adminPermissions[number];
+
+export const rolePermissions: Record<AdminRole, readonly AdminPermission[]> = {
+  "super-admin": adminPermissions,
+  "content-manager": ["content:manage", "prompts:manage", "data:refresh"],
+  "booking-desk": ["bookings:manage", "sms:read"],
+  "read-only": [],
+};
+
+export function hasPermission(role: string | null | undefined, permission: AdminPermission): boolean {
+  const permissions = rolePermissions[role as AdminRole];
+  return permissions ? permissions.includes(permission) : false;
+}
+
+export function getPermissionsForRole(role: string | null | undefined): readonly AdminPermission[] {
+  return rolePermissions[role as AdminRole] || [];
+}
@@ -0,0 +1,156 @@
+import { storage } from "./storage";
+import { getLiveDataContext } from "./data-ingestion";
+import { formatLiveData, promptKeyForAdvisoryType, renderSystemPrompt } from "./prompt-registry";
+import { getLocationForecast, type LocationForecast } from "./weather";
+import { formatIst, toIstDate } from "./scheduling";
+import type { LlmMessage } from "./llm-provider";
+import { advisoryLanguages, type AdvisoryChat, type AdvisoryLanguage, type AdvisorySession, type CropTracking, type Farmer } from "@shared/schema";
+
+export const DEFAULT_ADVISORY_SESSION_TITLE = "New conversation";
+
+// Session title from the farmer's first question
+export function advisorySessionTitle(firstMessage?: string | null): string {
+  const text = (firstMessage || "").replace(/\s+/g, " ").trim();
+  if (!text) return DEFAULT_ADVISORY_SESSION_TITLE;
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+export interface AdvisoryConversation {
+  messages: LlmMessage[];
+  promptVersion: string; // stored on the assistant reply
+}
+
+// What we know about a logged-in farmer that helps tailor advice
+export interface FarmerAdvisoryContext {
+  farmer: Farmer;
+  activeCrops: CropTracking[];
+  forecast: LocationForecast | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function farmerLanguage(farmer?: Farmer | null): AdvisoryLanguage | undefined {
+  return (advisoryLanguages as readonly string[]).includes(farmer?.language || "")
+    ? farmer!.language as AdvisoryLanguage
+    : undefined;
+}
+
+export async function getFarmerAdvisoryContext(farmerId: number): Promise<FarmerAdvisoryContext | null> {
+  const farmer = await storage.getFarmerById(farmerId);
+  if (!farmer) return null;
+
+  // Crop rows are keyed by the farmer id as a string (same as the account book)
+  const crops = await storage.getCropsByFarmer(String(farmer.id));
+  // A missing forecast shouldn't stop the farmer getting an answer
+  const forecast = await getLocationForecast(farmer.district, farmer.state).catch(error => {
+    console.error("Advisory forecast error:", error);
+    return null;
+  });
+
+  return { farmer, activeCrops: crops.filter(c => c.status === "active"), forecast };
+}
+
+function describeCrop(crop: CropTracking, now: Date): string {
+  const parts = [crop.cropName];
+  if (crop.sowingDate) {
+    const days = Math.floor((now.getTime() - new Date(crop.sowingDate).getTime()) / DAY_MS);
+    parts.push(days >= 0
+      ? `sown on ${toIstDate(crop.sowingDate)} (${days} days ago)`
+      : `to be sown on ${toIstDate(crop.sowingDate)}`);
+  }
+  if (crop.landArea) parts.push(`${crop.landArea} ${crop.areaUnit || "acre"}`);
+  if (crop.harvestDate) parts.push(`expected harvest ${toIstDate(crop.harvestDate)}`);
+  return parts.join(", ");
+}
+
+// Text for the {{farmerProfile}} prompt variable
+export function formatFarmerProfile(context: FarmerAdvisoryContext, now: Date = new Date()): string {
+  const { farmer, activeCrops, forecast } = context;
+  const location = [farmer.village, farmer.district, farmer.state].filter(Boolean).join(", ");
+  const lines = ["FARMER PROFILE:"];
+  if (farmer.name) lines.push(`- Name: ${farmer.name}`);
+  if (location) lines.push(`- Location: ${location}`);
+  if (farmer.language) lines.push(`- Preferred language: ${farmer.language}`);
+  if (activeCrops.length > 0) {
+    lines.push("- Crops currently growing:");
+    for (const crop of activeCrops) lines.push(`  - ${describeCrop(crop, now)}`);
+  } else if (farmer.crops) {
+    lines.push(`- Usually grows: ${farmer.crops}`);
+  }
+
+  if (forecast && forecast.days.length > 0) {
+    lines.push("", `WEATHER FORECAST FOR ${forecast.location}:`);
+    for (const day of forecast.days) {
+      lines.push(`- ${day.date}: ${day.condition}, ${day.tempMin}-${day.tempMax}°C, ${day.rainProbability}% chance of rain`);
+    }
+  }
+
+  lines.push("", "Tailor the advice to this farmer's region, the stage of their crops (days since sowing) and the coming weather. Do not repeat the profile back to them.");
+  return lines.join("\n");
+}
+
+// System prompt for the advisory type followed by the last 10 messages of the session.
+// Logged-in farmers also get their location, crops and local forecast in the prompt
+export async function buildAdvisoryMessages(
+  sessionId: string,
+  message: string,
+  advisoryType?: string,
+  options: { language?: AdvisoryLanguage; farmerId?: number } = {}
+): Promise<AdvisoryConversation> {
+  // Get chat history for context
+  const history = await storage.getAdvisoryChatsBySession(sessionId);
+  
+  // Get live data context from database (for crop, fruits, and general modes)
+  const liveDataContext = (advisoryType === "crop" || advisoryType === "fruits" || !advisoryType) 
+    ? await getLiveDataContext(message) 
+    : "";
+
+  const farmerContext = options.farmerId ? await getFarmerAdvisoryContext(options.farmerId) : null;
+  const language = options.language ?? farmerLanguage(farmerContext?.farmer) ?? "english";
+  
+  const systemPrompt = await renderSystemPrompt(promptKeyForAdvisoryType(advisoryType), language, {
+    liveData: formatLiveData(liveDataContext),
+    farmerProfile: farmerContext ? formatFarmerProfile(farmerContext) : "",
+  });
+
+  const messages: LlmMessage[] = [
+    { role: "system", content: systemPrompt.content },
+    ...recentHistoryMessages(history),
+  ];
+
+  return { messages, promptVersion: systemPrompt.promptVersion };
+}
+
+// Add recent history (last 10 messages for context)
+export function recentHistoryMessages(history: AdvisoryChat[]): LlmMessage[] {
+  return history.slice(-10).map(chat => ({
+    role: chat.role as "user" | "assistant",
+    content: chat.content,
+  }));
+}
+
+// Photos attached to a message; older rows only have the single imageUrl
+export function parseChatImageUrls(chat: AdvisoryChat): string[] {
+  if (chat.imageUrls) return JSON.parse(chat.imageUrls);
+  return chat.imageUrl ? [chat.imageUrl] : [];
+}
+
+// Plain-text copy of a conversation for the farmer to download or share
+export function buildAdvisoryTranscript(session: AdvisorySession, chats: AdvisoryChat[]): string {
+  const lines = [
+    "KisanDecks Advisory Conversation",
+    `Title: ${session.title}`,
+    `Advisory type: ${session.advisoryType}`,
+    `Started: ${formatIst(session.createdAt)}`,
+    `Exported: ${formatIst(new Date())}`,
+    "",
+  ];
+  for (const chat of chats) {
+    const speaker = chat.role === "user" ? "You" : "KisanDecks";
+    lines.push(`[${formatIst(chat.timestamp)}] ${speaker}:`);
+    lines.push(chat.content);
+    for (const url of parseChatImageUrls(chat)) lines.push(`(Photo: ${url})`);
+    lines.push("");
+  }
+  return lines.join("\r\n");
+}
@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import { isExpertFreeForBooking, withSlotReservation } from "./scheduling";
+import { assignExpert, canTransition } from "./booking-lifecycle";
+import { getExpertReputations, reputationFor, type ExpertReputation } from "./reputation";
+import type { Booking, Expert } from "@shared/schema";
+
+// Experts with this many assigned/in-progress sessions are skipped by auto-assignment
+const MAX_ACTIVE_BOOKINGS_PER_EXPERT = Number(process.env.MAX_ACTIVE_BOOKINGS_PER_EXPERT || 5);
+
+const ACTIVE_SESSION_STATUSES = ["assigned", "rescheduled", "in-progress"];
+
+export interface ExpertCandidate {
+  expert: Expert;
+  activeBookings: number;
+  lastAssignedAt: Date | null;
+  reputation: ExpertReputation;
+  eligible: boolean;
+  reason?: string; // why the expert was skipped
+}
+
+// Rank every expert in the booking's category, most suitable first
+export async function rankExperts(booking: Booking): Promise<ExpertCandidate[]> {
+  const allExperts = await storage.getAllExperts();
+  const sameCategory = allExperts.filter(e => e.category === booking.category);
+  const reputations = await getExpertReputations();
+
+  const candidates: ExpertCandidate[] = await Promise.all(sameCategory.map(async expert => {
+    const expertBookings = await storage.getBookingsByExpertId(expert.id);
+    const activeBookings = expertBookings.filter(b => ACTIVE_SESSION_STATUSES.includes(b.sessionStatus)).length;
+    const lastAssignedAt = expertBookings
+      .map(b => b.assignedAt)
+      .filter((d): d is Date => d != null)
+      .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0] ?? null;
+
+    let reason: string | undefined;
+    if (expert.status !== "approved") reason = "not approved";
+    else if (!expert.isActive) reason = "account disabled";
+    else if (!expert.acceptingBookings) reason = "not accepting bookings";
+    else if (activeBookings >= MAX_ACTIVE_BOOKINGS_PER_EXPERT) reason = `at capacity (${activeBookings} active)`;
+    else if (!(await isExpertFreeForBooking(expert.id, booking))) reason = "not available at the scheduled time";
+
+    return { expert, activeBookings, lastAssignedAt, reputation: reputationFor(reputations, expert.id), eligible: !reason, reason };
+  }));
+
+  return candidates.sort((a, b) => {
+    if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+    // The expert the farmer asked for goes first when eligible
+    if (booking.requestedExpertId) {
+      if (a.expert.id === booking.requestedExpertId) return -1;
+      if (b.expert.id === booking.requestedExpertId) return 1;
+    }
+    if (a.activeBookings !== b.activeBookings) return a.activeBookings - b.activeBookings;
+    // Between equally loaded experts, better-rated ones first
+    if (a.reputation.score !== b.reputation.score) return b.reputation.score - a.reputation.score;
+    // Least recently assigned first, so load spreads evenly
+    const aTime = a.lastAssignedAt ? new Date(a.lastAssignedAt).getTime() : 0;
+    const bTime = b.lastAssignedAt ? new Date(b.lastAssignedAt).getTime() : 0;
+    if (aTime !== bTime) return aTime - bTime;
+    return a.expert.id - b.expert.id;
+  });
+}
+
+function describeChoice(booking: Booking, chosen: ExpertCandidate, eligibleCount: number): string {
+  const parts = [`category "${booking.category}" match`];
+  if (booking.requestedExpertId === chosen.expert.id) parts.push("requested by farmer");
+  parts.push(`${chosen.activeBookings} active booking(s)`);
+  parts.push(`reputation ${chosen.reputation.score}`);
+  parts.push(`${eligibleCount} eligible expert(s)`);
+  return `Auto-assigned: ${parts.join(", ")}`;
+}
+
+// Assign the best eligible expert to a booking that has none yet. Ranking and assigning run under the
+// category's slot lock, so two bookings for the same slot can't both be given the last free expert
+export async function autoAssignBooking(bookingId: number): Promise<{ booking?: Booking; assigned: boolean; reason: string }> {
+  const found = await storage.getBookingById(bookingId);
+  if (!found) return { assigned: false, reason: "Booking not found" };
+  return await withSlotReservation(found.category, () => assignBestExpert(bookingId));
+}
+
+async function assignBestExpert(bookingId: number): Promise<{ booking?: Booking; assigned: boolean; reason: string }> {
+  // Re-read under the lock; rankExperts then checks each expert's slot against current bookings
+  const booking = await storage.getBookingById(bookingId);
+  if (!booking) return { assigned: false, reason: "Booking not found" };
+  if (booking.expertId) return { booking, assigned: false, reason: "Booking already has an expert" };
+  if (!canTransition(booking.sessionStatus, "assigned")) {
+    return { booking, assigned: false, reason: `Booking is ${booking.sessionStatus}` };
+  }
+
+  const ranked = await rankExperts(booking);
+  const eligible = ranked.filter(c => c.eligible);
+  if (eligible.length === 0) {
+    return { booking, assigned: false, reason: `No eligible expert for category "${booking.category}"` };
+  }
+
+  const chosen = eligible[0];
+  const reason = describeChoice(booking, chosen, eligible.length);
+  const updated = await assignExpert(booking, chosen.expert.id, { method: "auto", reason }, { role: "system" });
+  return { booking: updated, assigned: true, reason };
+}
@@ -0,0 +1,212 @@
+import crypto from "crypto";
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { chatMessageSchema, type Booking, type BookingMessage, type ChatParticipantRole } from "@shared/schema";
+
+// Real-time chat between a farmer and the assigned expert for "chat" mode bookings.
+// Clients get a short-lived token over HTTP (session auth), then connect to CHAT_WS_PATH?token=...
+export const CHAT_WS_PATH = "/ws/chat";
+const TOKEN_TTL_MS = 5 * 60 * 1000; // token only needs to live until the socket opens
+const CHAT_SECRET = process.env.CHAT_TOKEN_SECRET || process.env.SESSION_SECRET || (process.env.NODE_ENV === "production" ? "" : "kisandecks-chat");
+if (!CHAT_SECRET) {
+  throw new Error("CHAT_TOKEN_SECRET or SESSION_SECRET must be set in production");
+}
+const MAX_SOCKET_PAYLOAD = 16 * 1024;
+
+export interface ChatParticipant {
+  role: ChatParticipantRole;
+  userId: number;
+}
+
+export type ChatEvent =
+  | { type: "ready"; bookingId: number; role: ChatParticipantRole; unread: number }
+  | { type: "message"; message: BookingMessage }
+  | { type: "read"; readerRole: ChatParticipantRole; messageIds: number[]; readAt: Date }
+  | { type: "error"; error: string; errorHindi?: string };
+
+interface ChatClient {
+  socket: WebSocket;
+  participant: ChatParticipant;
+}
+
+// Open sockets per booking id
+const rooms = new Map<number, Set<ChatClient>>();
+
+// Only the farmer who booked and the currently assigned expert may use the chat
+export function getChatParticipant(booking: Booking, ids: { farmerId?: number; expertId?: number }): ChatParticipant | null {
+  if (ids.farmerId && booking.farmerId === ids.farmerId) return { role: "farmer", userId: ids.farmerId };
+  if (ids.expertId && booking.expertId === ids.expertId) return { role: "expert", userId: ids.expertId };
+  return null;
+}
+
+// History stays readable; new messages only while the consultation is open
+export function canSendChatMessage(booking: Booking): boolean {
+  return booking.mode === "chat" && !!booking.expertId && ["assigned", "rescheduled", "in-progress"].includes(booking.sessionStatus);
+}
+
+function signToken(payload: string): string {
+  return crypto.createHmac("sha256", CHAT_SECRET).update(payload).digest("base64url");
+}
+
+export function createChatToken(bookingId: number, participant: ChatParticipant): string {
+  const payload = Buffer.from(JSON.stringify({
+    bookingId,
+    role: participant.role,
+    userId: participant.userId,
+    exp: Date.now() + TOKEN_TTL_MS,
+  })).toString("base64url");
+  return `${payload}.${signToken(payload)}`;
+}
+
+function verifyChatToken(token: string): (ChatParticipant & { bookingId: number }) | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(signToken(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof claims.exp !== "number" || claims.exp < Date.now()) return null;
+    return { bookingId: claims.bookingId, role: claims.role, userId: claims.userId };
+  } catch {
+    return null;
+  }
+}
+
+function send(socket: WebSocket, event: ChatEvent) {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+}
+
+export function broadcastToBooking(bookingId: number, event: ChatEvent) {
+  const room = rooms.get(bookingId);
+  if (!room) return;
+  for (const client of Array.from(room)) send(client.socket, event);
+}
+
+// Persist a message and push it to everyone connected to the booking
+export async function postChatMessage(
+  booking: Booking,
+  participant: ChatParticipant,
+  content: { body?: string | null; attachmentUrl?: string | null }
+): Promise<BookingMessage> {
+  const message = await storage.createBookingMessage({
+    bookingId: booking.id,
+    senderRole: participant.role,
+    senderId: participant.userId,
+    body: content.body || null,
+    attachmentUrl: content.attachmentUrl || null,
+  });
+  broadcastToBooking(booking.id, { type: "message", message });
+  return message;
+}
+
+// Read receipts: mark the other side's messages read and tell the sender
+export async function markChatRead(booking: Booking, participant: ChatParticipant, upToId?: number): Promise<BookingMessage[]> {
+  const updated = await storage.markBookingMessagesRead(booking.id, participant.role, upToId);
+  if (updated.length > 0) {
+    broadcastToBooking(booking.id, {
+      type: "read",
+      readerRole: participant.role,
+      messageIds: updated.map(m => m.id),
+      readAt: updated[0].readAt!,
+    });
+  }
+  return updated;
+}
+
+async function handleSocketMessage(client: ChatClient, bookingId: number, raw: string) {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return send(client.socket, { type: "error", error: "Invalid message format" });
+  }
+
+  // Re-read the booking each time: the expert may have been reassigned or the session closed
+  const booking = await storage.getBookingById(bookingId);
+  const stillAllowed = booking && getChatParticipant(booking, client.participant.role === "farmer"
+    ? { farmerId: client.participant.userId }
+    : { expertId: client.participant.userId });
+  if (!booking || !stillAllowed) {
+    send(client.socket, { type: "error", error: "You no longer have access to this chat" });
+    return client.socket.close(4403, "Forbidden");
+  }
+
+  switch (data?.type) {
+    case "message": {
+      if (!canSendChatMessage(booking)) {
+        return send(client.socket, {
+          type: "error",
+          error: "Chat is closed for this booking",
+          errorHindi: "इस बुकिंग के लिए चैट बंद है",
+        });
+      }
+      const parsed = chatMessageSchema.safeParse(data);
+      if (!parsed.success) return send(client.socket, { type: "error", error: "Message must be 1-2000 characters" });
+      await postChatMessage(booking, client.participant, { body: parsed.data.body });
+      return;
+    }
+    case "read": {
+      const upToId = Number.isInteger(data.upToId) ? data.upToId : undefined;
+      await markChatRead(booking, client.participant, upToId);
+      return;
+    }
+    default:
+      send(client.socket, { type: "error", error: "Unknown message type" });
+  }
+}
+
+// Attach the chat WebSocket server to the app's HTTP server
+export function attachChatServer(httpServer: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_SOCKET_PAYLOAD });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    // Leave other upgrade requests (e.g. the dev server's HMR socket) alone
+    if (url.pathname !== CHAT_WS_PATH) return;
+
+    try {
+      const claims = verifyChatToken(url.searchParams.get("token") || "");
+      const booking = claims ? await storage.getBookingById(claims.bookingId) : undefined;
+      const participant = booking && claims
+        ? getChatParticipant(booking, claims.role === "farmer" ? { farmerId: claims.userId } : { expertId: claims.userId })
+        : null;
+
+      if (!booking || !participant) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, async (ws) => {
+        const client: ChatClient = { socket: ws, participant };
+        if (!rooms.has(booking.id)) rooms.set(booking.id, new Set());
+        rooms.get(booking.id)!.add(client);
+
+        ws.on("message", (raw) => {
+          handleSocketMessage(client, booking.id, raw.toString()).catch(error => {
+            console.error("Chat message error:", error);
+            send(ws, { type: "error", error: "Failed to process message" });
+          });
+        });
+
+        ws.on("close", () => {
+          const room = rooms.get(booking.id);
+          room?.delete(client);
+          if (room && room.size === 0) rooms.delete(booking.id);
+        });
+
+        const unread = await storage.countUnreadBookingMessages(booking.id, participant.role).catch(() => 0);
+        send(ws, { type: "ready", bookingId: booking.id, role: participant.role, unread });
+      });
+    } catch (error) {
+      console.error("Chat upgrade error:", error);
+      socket.destroy();
+    }
+  });
+
+  return wss;
+}
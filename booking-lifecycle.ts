@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { resolveBookingSlot, withSlotReservation } from "./scheduling";
+import { buildExpertEarning } from "./earnings";
+import type { Booking, BookingSessionStatus } from "@shared/schema";
+
+// Allowed booking status changes; completed, cancelled and no-show are final
+export const bookingTransitions: Record<BookingSessionStatus, readonly BookingSessionStatus[]> = {
+  "pending": ["assigned", "rescheduled", "cancelled-by-farmer"],
+  "assigned": ["assigned", "in-progress", "rescheduled", "cancelled-by-farmer", "cancelled-by-expert", "no-show"],
+  "rescheduled": ["assigned", "in-progress", "rescheduled", "cancelled-by-farmer", "cancelled-by-expert", "no-show"],
+  "in-progress": ["completed", "no-show"],
+  "completed": [],
+  "cancelled-by-farmer": [],
+  "cancelled-by-expert": [],
+  "no-show": [],
+};
+
+export interface BookingActor {
+  role: "farmer" | "expert" | "admin" | "system";
+  id?: number | null;
+}
+
+// Thrown when a status change is not allowed; routes turn it into a bilingual JSON error
+export class BookingTransitionError extends Error {
+  constructor(message: string, public messageHindi: string, public status: number = 409) {
+    super(message);
+    this.name = "BookingTransitionError";
+  }
+}
+
+export function canTransition(from: string, to: BookingSessionStatus): boolean {
+  const allowed = bookingTransitions[from as BookingSessionStatus];
+  return allowed ? allowed.includes(to) : false;
+}
+
+// Move a booking to a new status, stamping assignedAt/completedAt and logging a booking event
+export async function transitionBooking(
+  booking: Booking,
+  to: BookingSessionStatus,
+  actor: BookingActor,
+  options: {
+    reason?: string | null;
+    details?: Record<string, any>;
+    updates?: Parameters<typeof storage.transitionBookingStatus>[3];
+  } = {}
+): Promise<Booking> {
+  const from = booking.sessionStatus as BookingSessionStatus;
+  if (!canTransition(from, to)) {
+    throw new BookingTransitionError(
+      `Booking cannot move from ${from} to ${to}`,
+      `बुकिंग की स्थिति ${from} से ${to} नहीं बदली जा सकती`
+    );
+  }
+  if (to === "no-show" && booking.scheduledStart && new Date(booking.scheduledStart) > new Date()) {
+    throw new BookingTransitionError(
+      "A booking can only be marked no-show after its scheduled time",
+      "निर्धारित समय के बाद ही बुकिंग को अनुपस्थित चिह्नित किया जा सकता है",
+      400
+    );
+  }
+
+  const updates = { ...options.updates };
+  if (to === "assigned") updates.assignedAt = new Date();
+  if (to === "completed") updates.completedAt = new Date();
+
+  // The expert earns for sessions they attended, including farmer no-shows
+  const earns = to === "completed" || to === "no-show";
+  const updated = await storage.transitionBookingStatus(booking.id, from, to, updates, {
+    actorRole: actor.role,
+    actorId: actor.id ?? null,
+    reason: options.reason ?? null,
+    details: options.details ? JSON.stringify(options.details) : null,
+  }, earns ? buildExpertEarning : undefined);
+  if (!updated) {
+    // Someone else changed the booking since it was loaded
+    throw new BookingTransitionError(
+      "Booking was updated by someone else. Please refresh and try again.",
+      "बुकिंग किसी और ने बदल दी है। कृपया रीफ्रेश करके फिर प्रयास करें।"
+    );
+  }
+  return updated;
+}
+
+// Assign (or reassign) an expert to a booking
+export async function assignExpert(
+  booking: Booking,
+  expertId: number,
+  assignment: { method: "auto" | "manual"; reason?: string | null },
+  actor: BookingActor
+): Promise<Booking> {
+  return await transitionBooking(booking, "assigned", actor, {
+    reason: assignment.reason ?? null,
+    details: { expertId, previousExpertId: booking.expertId, method: assignment.method },
+    updates: {
+      expertId,
+      assignmentMethod: assignment.method,
+      assignmentReason: assignment.reason ?? null,
+    },
+  });
+}
+
+// Move a booking to a new slot; the assigned (or requested) expert must be free then
+export async function rescheduleBooking(
+  booking: Booking,
+  slotStart: string,
+  actor: BookingActor,
+  reason?: string | null
+): Promise<Booking> {
+  if (!canTransition(booking.sessionStatus, "rescheduled")) {
+    throw new BookingTransitionError(
+      "This booking can no longer be rescheduled",
+      "इस बुकिंग का समय अब नहीं बदला जा सकता"
+    );
+  }
+
+  return await withSlotReservation(booking.category, async () => {
+    const slot = await resolveBookingSlot({
+      category: booking.category,
+      slotStart,
+      expertId: booking.expertId ?? booking.requestedExpertId,
+    });
+    return await transitionBooking(booking, "rescheduled", actor, {
+      reason,
+      details: {
+        previousStart: booking.scheduledStart,
+        previousEnd: booking.scheduledEnd,
+        newStart: slot.start,
+        newEnd: slot.end,
+      },
+      updates: { scheduledStart: slot.start, scheduledEnd: slot.end },
+    });
+  });
+}
+
+// Farmers get their money back when cancelling well before the slot (or before any slot was set)
+const FARMER_REFUND_CUTOFF_MS = 2 * 60 * 60 * 1000;
+
+export function isFarmerCancellationRefundable(booking: Booking): boolean {
+  if (booking.paymentStatus !== "PAID") return false;
+  if (!booking.scheduledStart) return true;
+  return new Date(booking.scheduledStart).getTime() - Date.now() >= FARMER_REFUND_CUTOFF_MS;
+}
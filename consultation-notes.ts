@@ -0,0 +1,120 @@
+import type { Booking, ConsultationNote, Expert, PrescriptionItem } from "@shared/schema";
+import { formatIst } from "./scheduling";
+
+// Bilingual line of a printable consultation summary (same shape as the calculator breakdowns)
+export interface SummaryLine {
+  step: string;
+  stepHindi: string;
+  value: string;
+}
+
+export interface ConsultationSummary {
+  title: string;
+  titleHindi: string;
+  sessionId: string;
+  lines: SummaryLine[];
+  prescriptions: SummaryLine[];
+  imageUrls: string[];
+  disclaimer: string;
+  disclaimerHindi: string;
+}
+
+const categoryNames: Record<string, { en: string; hi: string }> = {
+  "crop": { en: "Crop", hi: "फसल" },
+  "soil": { en: "Soil", hi: "मिट्टी" },
+  "water": { en: "Water", hi: "पानी" },
+  "fruit-veg": { en: "Fruits & Vegetables", hi: "फल और सब्जी" },
+  "cattle": { en: "Cattle", hi: "पशुपालन" },
+};
+
+export function parsePrescriptions(note: ConsultationNote): PrescriptionItem[] {
+  return JSON.parse(note.prescriptions || "[]");
+}
+
+export function parseImageUrls(note: ConsultationNote): string[] {
+  return JSON.parse(note.imageUrls || "[]");
+}
+
+export function buildConsultationSummary(booking: Booking, note: ConsultationNote, expert?: Expert): ConsultationSummary {
+  const category = categoryNames[booking.category] || { en: booking.category, hi: booking.category };
+  const consultedOn = booking.scheduledStart || booking.completedAt || booking.timestamp;
+
+  const lines: SummaryLine[] = [
+    { step: "Farmer", stepHindi: "किसान", value: booking.name },
+    { step: "Expert", stepHindi: "विशेषज्ञ", value: expert?.name || "-" },
+    { step: "Consultation", stepHindi: "परामर्श", value: `${category.en} / ${category.hi} (${booking.mode})` },
+    { step: "Date", stepHindi: "तारीख", value: formatIst(consultedOn) },
+    { step: "Diagnosis", stepHindi: "निदान", value: note.diagnosis },
+  ];
+  if (note.advice) {
+    lines.push({ step: "Advice", stepHindi: "सलाह", value: note.advice });
+  }
+  lines.push({
+    step: "Follow-up",
+    stepHindi: "दोबारा जांच",
+    value: note.followUpDate || "Not required / आवश्यक नहीं",
+  });
+
+  const prescriptions = parsePrescriptions(note).map((item, i) => ({
+    step: `${i + 1}. ${item.product} - Dose: ${item.dose}`,
+    stepHindi: `${i + 1}. ${item.product} - मात्रा: ${item.dose}`,
+    value: item.instructions || "",
+  }));
+
+  return {
+    title: "KisanDecks Consultation Summary",
+    titleHindi: "KisanDecks परामर्श सारांश",
+    sessionId: booking.sessionId,
+    lines,
+    prescriptions,
+    imageUrls: parseImageUrls(note),
+    disclaimer: "Use products only as directed on the label. Wear gloves and a mask while spraying.",
+    disclaimerHindi: "दवाओं का उपयोग केवल लेबल के अनुसार करें। छिड़काव करते समय दस्ताने और मास्क पहनें।",
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Self-contained page the farmer can print or save as PDF from the browser
+export function renderConsultationSummaryHtml(summary: ConsultationSummary): string {
+  const row = (line: SummaryLine) =>
+    `<tr><th>${escapeHtml(line.step)}<br><span class="hi">${escapeHtml(line.stepHindi)}</span></th><td>${escapeHtml(line.value)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="hi">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(summary.title)} - ${escapeHtml(summary.sessionId)}</title>
+<style>
+  body { font-family: "Noto Sans", "Noto Sans Devanagari", Arial, sans-serif; margin: 24px; color: #1f2937; }
+  h1 { font-size: 20px; margin-bottom: 0; }
+  h2 { font-size: 16px; margin-top: 24px; }
+  .hi { color: #4b5563; font-weight: normal; }
+  table { border-collapse: collapse; width: 100%; margin-top: 12px; }
+  th, td { border: 1px solid #d1d5db; padding: 8px; text-align: left; vertical-align: top; }
+  th { width: 30%; background: #f3f4f6; }
+  img { max-width: 200px; margin: 8px 8px 0 0; }
+  .note { font-size: 12px; margin-top: 24px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(summary.title)}</h1>
+<div class="hi">${escapeHtml(summary.titleHindi)} &middot; ${escapeHtml(summary.sessionId)}</div>
+<table>${summary.lines.map(row).join("")}</table>
+<h2>Prescription <span class="hi">/ दवा और मात्रा</span></h2>
+${summary.prescriptions.length > 0
+    ? `<table>${summary.prescriptions.map(row).join("")}</table>`
+    : `<p>No products prescribed. <span class="hi">कोई दवा नहीं लिखी गई।</span></p>`}
+${summary.imageUrls.length > 0 ? `<h2>Photos <span class="hi">/ तस्वीरें</span></h2>${summary.imageUrls.map(url => `<img src="${escapeHtml(url)}" alt="">`).join("")}` : ""}
+<p class="note">${escapeHtml(summary.disclaimer)}<br><span class="hi">${escapeHtml(summary.disclaimerHindi)}</span></p>
+</body>
+</html>`;
+}
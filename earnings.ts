@@ -0,0 +1,108 @@
+import { storage } from "./storage";
+import { toIstDate } from "./scheduling";
+import { getBookingAmount } from "./pricing";
+import type { Booking, Expert, ExpertPayout } from "@shared/schema";
+
+// Platform keeps this share of each booking's list fee; the rest is the expert's. Discounts (promo
+// codes, free first consultations) come out of the platform's share, so experts are paid for those too
+export const PLATFORM_COMMISSION_PERCENT = Number(process.env.PLATFORM_COMMISSION_PERCENT || 30);
+
+export interface EarningsPeriod {
+  month: string; // YYYY-MM
+  bookings: number;
+  grossAmount: number;
+  platformAmount: number;
+  expertAmount: number;
+  settledAmount: number;
+  unsettledAmount: number;
+}
+
+export function splitBookingFee(grossAmount: number, commissionPercent: number = PLATFORM_COMMISSION_PERCENT) {
+  const platformAmount = Math.round(grossAmount * commissionPercent / 100);
+  return { platformAmount, expertAmount: grossAmount - platformAmount };
+}
+
+// Ledger entry for the expert's share of a finished booking; written with the status change (once per booking)
+export function buildExpertEarning(booking: Booking): Parameters<typeof storage.createExpertPayout>[0] | undefined {
+  if (!booking.expertId) return undefined;
+  if (booking.paymentStatus !== "PAID" && booking.paymentStatus !== "FREE") return undefined;
+
+  // List fee (catalog or expert override) = what the farmer was charged plus the discount
+  const chargedAmount = booking.paymentStatus === "FREE" ? 0 : getBookingAmount(booking);
+  const grossAmount = chargedAmount + (booking.discountAmount ?? 0);
+  const { expertAmount } = splitBookingFee(grossAmount);
+  const platformAmount = chargedAmount - expertAmount; // negative when the discount exceeds the commission
+  return {
+    expertId: booking.expertId,
+    bookingId: booking.id,
+    periodMonth: toIstDate(booking.completedAt ?? new Date()).slice(0, 7),
+    grossAmount,
+    commissionPercent: PLATFORM_COMMISSION_PERCENT,
+    platformAmount,
+    expertAmount,
+  };
+}
+
+// Per-month totals, newest month first; void entries are left out
+export function summarizePayouts(payouts: ExpertPayout[]): EarningsPeriod[] {
+  const byMonth = new Map<string, EarningsPeriod>();
+  for (const payout of payouts.filter(p => p.status !== "void")) {
+    const period = byMonth.get(payout.periodMonth) ?? {
+      month: payout.periodMonth,
+      bookings: 0,
+      grossAmount: 0,
+      platformAmount: 0,
+      expertAmount: 0,
+      settledAmount: 0,
+      unsettledAmount: 0,
+    };
+    period.bookings += 1;
+    period.grossAmount += payout.grossAmount;
+    period.platformAmount += payout.platformAmount;
+    period.expertAmount += payout.expertAmount;
+    if (payout.status === "settled") period.settledAmount += payout.expertAmount;
+    else period.unsettledAmount += payout.expertAmount;
+    byMonth.set(payout.periodMonth, period);
+  }
+  return Array.from(byMonth.values()).sort((a, b) => b.month.localeCompare(a.month));
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value == null ? "" : String(value);
+  // Quote everything that could break the row, and neutralise spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Monthly statement for one expert, one line per booking plus a total row
+export function buildPayoutStatementCsv(expert: Expert, month: string, payouts: ExpertPayout[], bookingsById: Map<number, Booking>): string {
+  const rows: (string | number | null)[][] = [
+    ["Expert", expert.name],
+    ["Expert ID", expert.id],
+    ["Month", month],
+    [],
+    ["Booking ID", "Completed", "Category", "Mode", "Fee (INR)", "Commission %", "Platform (INR)", "Expert (INR)", "Status", "Settled At", "Reference"],
+  ];
+  for (const payout of payouts) {
+    const booking = bookingsById.get(payout.bookingId);
+    rows.push([
+      booking?.sessionId ?? payout.bookingId,
+      booking?.completedAt ? toIstDate(booking.completedAt) : "",
+      booking?.category ?? "",
+      booking?.mode ?? "",
+      payout.grossAmount,
+      payout.commissionPercent,
+      payout.platformAmount,
+      payout.expertAmount,
+      payout.status,
+      payout.settledAt ? new Date(payout.settledAt).toISOString() : "",
+      payout.settlementReference,
+    ]);
+  }
+  const [totals] = summarizePayouts(payouts);
+  rows.push([]);
+  rows.push(["Total", "", "", "", totals?.grossAmount ?? 0, "", totals?.platformAmount ?? 0, totals?.expertAmount ?? 0]);
+  rows.push(["Settled", "", "", "", "", "", "", totals?.settledAmount ?? 0]);
+  rows.push(["Unsettled", "", "", "", "", "", "", totals?.unsettledAmount ?? 0]);
+  return rows.map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
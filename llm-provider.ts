@@ -0,0 +1,357 @@
+import crypto from "crypto";
+import OpenAI from "openai";
+
+// LLM abstraction - pick the provider with LLM_PROVIDER (openai, fake) and an optional
+// LLM_FALLBACK_PROVIDER that is tried when the primary keeps failing
+export type LlmFeature = "advisory" | "vision" | "account-analysis";
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string }; // http(s) or data: URL
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string | LlmContentPart[];
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+  responseFormat?: "text" | "json"; // "json" asks for a single JSON object
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<string>;
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
+
+export interface LlmFeatureConfig {
+  model: string;
+  maxTokens: number;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+// Thrown when the caller (e.g. a disconnected client) cancelled the request
+export class LlmAbortError extends Error {
+  constructor() {
+    super("LLM request aborted");
+    this.name = "LlmAbortError";
+  }
+}
+
+export class LlmTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM request timed out after ${timeoutMs}ms`);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS || 60000);
+const DEFAULT_MAX_RETRIES = Number(process.env.LLM_MAX_RETRIES || 2);
+const RETRY_BASE_DELAY_MS = 500;
+
+// Per-feature settings; models can be overridden with LLM_MODEL_ADVISORY, LLM_MODEL_VISION
+// and LLM_MODEL_ACCOUNT_ANALYSIS
+export const llmFeatures: Record<LlmFeature, LlmFeatureConfig> = {
+  "advisory": {
+    model: process.env.LLM_MODEL_ADVISORY || "gpt-4.1",
+    maxTokens: 1024,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    maxRetries: DEFAULT_MAX_RETRIES,
+  },
+  "vision": {
+    model: process.env.LLM_MODEL_VISION || "gpt-4.1",
+    maxTokens: 2500, // prose answer plus the JSON diagnosis
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    maxRetries: DEFAULT_MAX_RETRIES,
+  },
+  "account-analysis": {
+    model: process.env.LLM_MODEL_ACCOUNT_ANALYSIS || "gpt-4o",
+    maxTokens: 500,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    maxRetries: DEFAULT_MAX_RETRIES,
+  },
+};
+
+// Any OpenAI-compatible chat completions API (Replit AI Integrations by default)
+export class OpenAILlmProvider implements LlmProvider {
+  private client: OpenAI;
+
+  constructor(readonly name: string, options: { baseURL?: string; apiKey?: string }) {
+    // Retries are handled by generateLlmText/streamLlmText so the fallback provider gets a turn
+    this.client = new OpenAI({ baseURL: options.baseURL, apiKey: options.apiKey, maxRetries: 0 });
+  }
+
+  private toOpenAIMessages(messages: LlmMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return messages.map(message => {
+      if (typeof message.content === "string" || message.role !== "user") {
+        return {
+          role: message.role,
+          content: typeof message.content === "string" ? message.content : textOf(message.content),
+        } as OpenAI.Chat.ChatCompletionMessageParam;
+      }
+      return {
+        role: "user",
+        content: message.content.map(part => part.type === "text"
+          ? { type: "text" as const, text: part.text }
+          : { type: "image_url" as const, image_url: { url: part.url } }),
+      };
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: this.toOpenAIMessages(request.messages),
+      max_tokens: request.maxTokens,
+      ...(request.responseFormat === "json" ? { response_format: { type: "json_object" as const } } : {}),
+    }, { signal: request.signal });
+    return completion.choices[0]?.message?.content || "";
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: this.toOpenAIMessages(request.messages),
+      max_tokens: request.maxTokens,
+      stream: true,
+    }, { signal: request.signal });
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+}
+
+// Offline provider for local development and tests: the same request always gets the same reply
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake";
+  readonly requests: LlmRequest[] = [];
+
+  reply(request: LlmRequest): string {
+    const lastUser = [...request.messages].reverse().find(m => m.role === "user");
+    const question = lastUser ? textOf(lastUser.content) : "";
+    const images = lastUser && typeof lastUser.content !== "string"
+      ? lastUser.content.filter(part => part.type === "image").length
+      : 0;
+    const digest = crypto.createHash("sha256")
+      .update(JSON.stringify({ model: request.model, messages: request.messages }))
+      .digest("hex")
+      .slice(0, 8);
+    const text = [
+      `[fake ${request.model} ${digest}]`,
+      images > 0 ? `Looked at ${images} image(s).` : "",
+      `You asked: ${question.slice(0, 200)}`,
+    ].filter(Boolean).join(" ");
+    if (request.responseFormat !== "json") return text;
+
+    // Fixed diagnosis so the vision flow can be exercised offline
+    return JSON.stringify({
+      answer: text,
+      diagnosis: {
+        subjectType: "crop",
+        subject: "Tomato",
+        condition: "Early blight",
+        conditionType: "disease",
+        confidence: 0.5,
+        severity: "moderate",
+        organicTreatments: [{ name: "Neem oil", dose: "5 ml per litre", instructions: "Spray on both sides of the leaves every 7 days" }],
+        chemicalTreatments: [{ name: "Mancozeb 75% WP", dose: "2 g per litre", instructions: "Spray at 10-day intervals; wear gloves and a mask" }],
+        expertReferral: { contact: "kvk", urgency: "if-no-improvement", reason: "Fake diagnosis for testing" },
+      },
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    this.requests.push(request);
+    return this.reply(request);
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    this.requests.push(request);
+    for (const word of this.reply(request).split(/(?<= )/)) {
+      if (request.signal?.aborted) throw request.signal.reason ?? new LlmAbortError();
+      yield word;
+    }
+  }
+
+  clear() {
+    this.requests.length = 0;
+  }
+}
+
+function textOf(content: string | LlmContentPart[]): string {
+  if (typeof content === "string") return content;
+  return content.filter(part => part.type === "text").map(part => (part as { text: string }).text).join("\n");
+}
+
+export function createLlmProvider(): LlmProvider {
+  switch (process.env.LLM_PROVIDER) {
+    case "fake":
+      return new FakeLlmProvider();
+    default:
+      return new OpenAILlmProvider("openai", {
+        baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+        apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+      });
+  }
+}
+
+export function createFallbackLlmProvider(): LlmProvider | null {
+  switch (process.env.LLM_FALLBACK_PROVIDER) {
+    case "openai":
+      return new OpenAILlmProvider("openai-fallback", {
+        baseURL: process.env.LLM_FALLBACK_BASE_URL,
+        apiKey: process.env.LLM_FALLBACK_API_KEY,
+      });
+    case "fake":
+      return new FakeLlmProvider();
+    default:
+      return null;
+  }
+}
+
+export let llmProvider: LlmProvider = createLlmProvider();
+export let llmFallbackProvider: LlmProvider | null = createFallbackLlmProvider();
+
+// Swap the active providers (used by tests with FakeLlmProvider)
+export function setLlmProviders(primary: LlmProvider, fallback: LlmProvider | null = null) {
+  llmProvider = primary;
+  llmFallbackProvider = fallback;
+}
+
+// Model to ask the fallback provider for; defaults to the feature's model
+function fallbackModel(config: LlmFeatureConfig): string {
+  return process.env.LLM_FALLBACK_MODEL || config.model;
+}
+
+// Timeouts, rate limits, 5xx and network errors are worth another try; bad requests are not
+function isRetryable(error: any): boolean {
+  if (error instanceof LlmAbortError) return false;
+  if (error instanceof LlmTimeoutError) return true;
+  const status = error?.status;
+  if (typeof status === "number") return status === 408 || status === 409 || status === 429 || status >= 500;
+  return true;
+}
+
+// Abort on the caller's signal or after the feature timeout, whichever comes first.
+// Call cleanup once the attempt is over so the timer and listener don't outlive it
+function requestSignal(config: LlmFeatureConfig, signal?: AbortSignal): { signal: AbortSignal; cleanup: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new LlmTimeoutError(config.timeoutMs)), config.timeoutMs);
+  timer.unref();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal) {
+    if (signal.aborted) controller.abort(signal.reason);
+    else signal.addEventListener("abort", onAbort, { once: true });
+  }
+  return {
+    signal: controller.signal,
+    cleanup: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new LlmAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LlmAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Providers to try in order, each with the model it should be asked for
+function providerChain(config: LlmFeatureConfig): { provider: LlmProvider; model: string }[] {
+  const chain = [{ provider: llmProvider, model: config.model }];
+  if (llmFallbackProvider) chain.push({ provider: llmFallbackProvider, model: fallbackModel(config) });
+  return chain;
+}
+
+// Run a one-shot completion for a feature, retrying and then falling back to the secondary provider
+export async function generateLlmText(
+  feature: LlmFeature,
+  messages: LlmMessage[],
+  options: { signal?: AbortSignal; responseFormat?: "text" | "json" } = {}
+): Promise<string> {
+  const config = llmFeatures[feature];
+  let lastError: unknown;
+
+  for (const { provider, model } of providerChain(config)) {
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+      if (options.signal?.aborted) throw new LlmAbortError();
+      const request = requestSignal(config, options.signal);
+      try {
+        return await provider.complete({
+          model,
+          messages,
+          maxTokens: config.maxTokens,
+          responseFormat: options.responseFormat,
+          signal: request.signal,
+        });
+      } catch (error: any) {
+        if (options.signal?.aborted) throw new LlmAbortError();
+        lastError = error;
+        console.error(`LLM ${provider.name} ${feature} error (attempt ${attempt + 1}):`, error.message, error.status);
+        if (!isRetryable(error)) break;
+        if (attempt < config.maxRetries) await wait(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+      } finally {
+        request.cleanup();
+      }
+    }
+  }
+  throw lastError;
+}
+
+// Stream a completion for a feature. Retries and fallback only happen before the first
+// token, so the caller never sees two half answers glued together
+export async function* streamLlmText(
+  feature: LlmFeature,
+  messages: LlmMessage[],
+  options: { signal?: AbortSignal } = {}
+): AsyncGenerator<string> {
+  const config = llmFeatures[feature];
+  let lastError: unknown;
+
+  for (const { provider, model } of providerChain(config)) {
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+      if (options.signal?.aborted) throw new LlmAbortError();
+      let started = false;
+      const request = requestSignal(config, options.signal);
+      try {
+        for await (const token of provider.stream({
+          model,
+          messages,
+          maxTokens: config.maxTokens,
+          signal: request.signal,
+        })) {
+          started = true;
+          yield token;
+        }
+        return;
+      } catch (error: any) {
+        if (options.signal?.aborted) throw new LlmAbortError();
+        if (started) throw error;
+        lastError = error;
+        console.error(`LLM ${provider.name} ${feature} stream error (attempt ${attempt + 1}):`, error.message, error.status);
+        if (!isRetryable(error)) break;
+        if (attempt < config.maxRetries) await wait(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+      } finally {
+        request.cleanup();
+      }
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,172 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { sendSms } from "./sms";
+import type { OtpCode, OtpPurpose } from "@shared/schema";
+
+const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between sends to the same phone
+const MAX_VERIFY_ATTEMPTS = 5;
+const SEND_WINDOW_MS = 60 * 60 * 1000; // throttling window: 1 hour
+const MAX_SENDS_PER_PHONE = 5;
+const MAX_SENDS_PER_IP = 20;
+
+const OTP_SECRET = process.env.OTP_SECRET || process.env.SESSION_SECRET || (process.env.NODE_ENV === "production" ? "" : "kisandecks-otp");
+if (!OTP_SECRET) {
+  throw new Error("OTP_SECRET or SESSION_SECRET must be set in production");
+}
+
+// Thrown for expected OTP failures; routes turn it into a bilingual JSON error
+export class OtpError extends Error {
+  constructor(
+    message: string,
+    public messageHindi: string,
+    public status: number = 400,
+    public retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "OtpError";
+  }
+}
+
+function hashOtp(phone: string, purpose: OtpPurpose, otp: string): string {
+  return crypto.createHmac("sha256", OTP_SECRET).update(`${phone}:${purpose}:${otp}`).digest("hex");
+}
+
+function matchesOtp(record: OtpCode, otp: string): boolean {
+  const expected = Buffer.from(record.codeHash, "hex");
+  const actual = Buffer.from(hashOtp(record.phone, record.purpose as OtpPurpose, otp), "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Generate, store and send a new OTP, enforcing cooldown and send limits
+export async function sendOtp(phone: string, purpose: OtpPurpose, ip?: string, language?: string | null): Promise<{ otp: string; expiresAt: Date }> {
+  const now = Date.now();
+
+  const latest = await storage.getActiveOtpCode(phone, purpose);
+  if (latest && now - new Date(latest.createdAt).getTime() < RESEND_COOLDOWN_MS) {
+    const retryAfterSeconds = Math.ceil((RESEND_COOLDOWN_MS - (now - new Date(latest.createdAt).getTime())) / 1000);
+    throw new OtpError(
+      `Please wait ${retryAfterSeconds} seconds before requesting a new OTP`,
+      `नया OTP मांगने से पहले ${retryAfterSeconds} सेकंड रुकें`,
+      429,
+      retryAfterSeconds
+    );
+  }
+
+  const windowStart = new Date(now - SEND_WINDOW_MS);
+  const [phoneSends, ipSends] = await Promise.all([
+    storage.countOtpCodesByPhoneSince(phone, windowStart),
+    ip ? storage.countOtpCodesByIpSince(ip, windowStart) : Promise.resolve(0),
+  ]);
+  if (phoneSends >= MAX_SENDS_PER_PHONE || ipSends >= MAX_SENDS_PER_IP) {
+    throw new OtpError(
+      "Too many OTP requests. Please try again later.",
+      "बहुत अधिक OTP अनुरोध। कृपया बाद में प्रयास करें।",
+      429,
+      SEND_WINDOW_MS / 1000
+    );
+  }
+
+  // Generate 6-digit OTP
+  const otp = crypto.randomInt(100000, 1000000).toString();
+  const expiresAt = new Date(now + OTP_TTL_MS);
+
+  // Only the newest code for a phone and purpose stays usable
+  await storage.consumeOtpCodes(phone, purpose);
+  await storage.createOtpCode({
+    phone,
+    purpose,
+    codeHash: hashOtp(phone, purpose, otp),
+    requestIp: ip || null,
+    expiresAt,
+  });
+
+  const sms = await sendSms(phone, "otp", { otp, minutes: OTP_TTL_MS / 60000 }, language);
+  if (sms.status === "failed") {
+    await storage.consumeOtpCodes(phone, purpose);
+    throw new OtpError(
+      "Could not send OTP. Please try again.",
+      "OTP नहीं भेजा जा सका। कृपया फिर से प्रयास करें।",
+      502
+    );
+  }
+
+  return { otp, expiresAt };
+}
+
+// Check an OTP against the active code, counting failed attempts
+export async function verifyOtp(phone: string, purpose: OtpPurpose, otp: string): Promise<OtpCode> {
+  const record = await storage.getActiveOtpCode(phone, purpose);
+
+  if (!record) {
+    throw new OtpError(
+      "No OTP found. Please request a new one.",
+      "कोई OTP नहीं मिला। नया OTP भेजें।"
+    );
+  }
+
+  if (new Date() > new Date(record.expiresAt)) {
+    await storage.consumeOtpCodes(phone, purpose);
+    throw new OtpError(
+      "OTP expired. Please request a new one.",
+      "OTP समाप्त हो गया। नया OTP भेजें।"
+    );
+  }
+
+  // Count the attempt before comparing so parallel guesses can't get past the limit
+  const claimed = await storage.incrementOtpAttempts(record.id, MAX_VERIFY_ATTEMPTS);
+  if (!claimed) {
+    await storage.consumeOtpCodes(phone, purpose);
+    throw new OtpError(
+      "Too many wrong attempts. Please request a new OTP.",
+      "बहुत अधिक गलत प्रयास। नया OTP भेजें।",
+      429
+    );
+  }
+
+  if (!matchesOtp(record, String(otp))) {
+    const attemptsLeft = Math.max(0, MAX_VERIFY_ATTEMPTS - claimed.attempts);
+    throw new OtpError(
+      `Invalid OTP. ${attemptsLeft} attempts left.`,
+      `गलत OTP। ${attemptsLeft} प्रयास बाकी।`
+    );
+  }
+
+  if (!record.verifiedAt) {
+    await storage.markOtpVerified(record.id);
+  }
+  return { ...record, verifiedAt: record.verifiedAt ?? new Date() };
+}
+
+// Second step of a two-step flow (e.g. password reset): the code must already have passed verifyOtp.
+// It is only compared again, so re-sending the verified code doesn't use up another attempt
+export async function requireVerifiedOtp(phone: string, purpose: OtpPurpose, otp: string): Promise<OtpCode> {
+  const record = await storage.getActiveOtpCode(phone, purpose);
+  if (!record || !record.verifiedAt) {
+    throw new OtpError(
+      "Please verify OTP first",
+      "पहले OTP सत्यापित करें"
+    );
+  }
+
+  if (new Date() > new Date(record.expiresAt)) {
+    await storage.consumeOtpCodes(phone, purpose);
+    throw new OtpError(
+      "OTP expired. Please request a new one.",
+      "OTP समाप्त हो गया। नया OTP भेजें।"
+    );
+  }
+
+  if (!matchesOtp(record, String(otp))) {
+    throw new OtpError(
+      "Invalid OTP",
+      "गलत OTP"
+    );
+  }
+  return record;
+}
+
+// Mark every outstanding code for the phone and purpose as used
+export async function consumeOtp(phone: string, purpose: OtpPurpose): Promise<void> {
+  await storage.consumeOtpCodes(phone, purpose);
+}
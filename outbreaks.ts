@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { sendSms } from "./sms";
+import { toIstDate } from "./scheduling";
+import type { AdvisoryChat, Farmer, OutbreakWeeklyStat, VisionDiagnosis } from "@shared/schema";
+
+// Outbreak surveillance: vision diagnoses of diseases and pests are counted per district and
+// IST week; a week is a spike when at least OUTBREAK_MIN_CASES farmers report it and it is well above the
+// district's recent average for that condition.
+// Conditions are grouped by the model's free-text name with only case and spacing folded, so
+// "Leaf blight" and "Early leaf blight" count as different conditions
+const OUTBREAK_MIN_CASES = Number(process.env.OUTBREAK_MIN_CASES || 3);
+const OUTBREAK_SPIKE_FACTOR = Number(process.env.OUTBREAK_SPIKE_FACTOR || 2);
+const OUTBREAK_MIN_CONFIDENCE = 0.5; // ignore guesses
+const BASELINE_WEEKS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OutbreakRunSummary {
+  weeks: string[];
+  groups: number;
+  spikes: OutbreakWeeklyStat[];
+  alertsSent: number;
+}
+
+// Monday (IST) of the week containing the instant, as YYYY-MM-DD
+export function istWeekStart(instant: Date): string {
+  const day = new Date(`${toIstDate(instant)}T00:00:00Z`);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function addWeeks(weekStart: string, weeks: number): string {
+  return new Date(new Date(`${weekStart}T00:00:00Z`).getTime() + weeks * 7 * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function isOutbreakSpike(cases: number, baselineCases: number): boolean {
+  return cases >= OUTBREAK_MIN_CASES && cases >= OUTBREAK_SPIKE_FACTOR * Math.max(baselineCases, 1);
+}
+
+// Called after a vision diagnosis is saved; only logged-in farmers with a district count
+export async function recordDiagnosisReport(chat: AdvisoryChat, diagnosis: VisionDiagnosis, farmer?: Farmer | null) {
+  if (!farmer?.state || !farmer.district) return undefined;
+  if (diagnosis.conditionType !== "disease" && diagnosis.conditionType !== "pest") return undefined;
+  if (diagnosis.confidence < OUTBREAK_MIN_CONFIDENCE) return undefined;
+
+  return await storage.createDiagnosisReport({
+    chatId: chat.id,
+    farmerId: farmer.id,
+    state: farmer.state.trim(),
+    district: farmer.district.trim(),
+    subject: diagnosis.subject,
+    condition: diagnosis.condition,
+    conditionKey: diagnosis.condition.trim().toLowerCase().replace(/\s+/g, " "),
+    conditionType: diagnosis.conditionType,
+    severity: diagnosis.severity,
+    confidencePercent: Math.round(diagnosis.confidence * 100),
+    weekStart: istWeekStart(chat.timestamp),
+  });
+}
+
+// SMS every opted-in farmer in the district once per spike; the claim comes first so
+// overlapping runs can't both send
+async function sendOutbreakAlerts(stat: OutbreakWeeklyStat): Promise<number> {
+  if (!(await storage.claimOutbreakAlert(stat.id))) return 0;
+  const farmers = await storage.getFarmersForOutbreakAlerts(stat.state, stat.district);
+  let sent = 0;
+  for (const farmer of farmers) {
+    try {
+      const message = await sendSms(farmer.phone, "outbreak-alert", {
+        district: stat.district,
+        condition: stat.condition,
+        subject: stat.subject,
+      }, farmer.language);
+      if (message.status !== "failed") sent++;
+    } catch (error) {
+      console.error("Outbreak alert SMS error:", error);
+    }
+  }
+  return sent;
+}
+
+// Recount last week and this week for every district/condition and alert on new spikes.
+// Safe to run as often as needed: counts are upserted and each spike is alerted once
+export async function runOutbreakAggregation(now: Date = new Date()): Promise<OutbreakRunSummary> {
+  const thisWeek = istWeekStart(now);
+  const weeks = [addWeeks(thisWeek, -1), thisWeek];
+  const rows = await storage.countDiagnosisReportsByWeek(addWeeks(weeks[0], -BASELINE_WEEKS));
+
+  const groups = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const key = `${row.state.toLowerCase()}|${row.district.toLowerCase()}|${row.conditionKey}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  const spikes: OutbreakWeeklyStat[] = [];
+  let alertsSent = 0;
+  for (const groupRows of Array.from(groups.values())) {
+    const casesByWeek = new Map<string, number>();
+    for (const row of groupRows) casesByWeek.set(row.weekStart, (casesByWeek.get(row.weekStart) || 0) + row.cases);
+
+    for (const week of weeks) {
+      const cases = casesByWeek.get(week) || 0;
+      if (cases === 0) continue;
+      let previous = 0;
+      for (let i = 1; i <= BASELINE_WEEKS; i++) previous += casesByWeek.get(addWeeks(week, -i)) || 0;
+      const baselineCases = Math.ceil(previous / BASELINE_WEEKS);
+      const sample = groupRows.find(row => row.weekStart === week) || groupRows[0];
+
+      // Stats are keyed on the lower-cased location, so a report spelled differently updates the same row
+      const stat = await storage.upsertOutbreakWeeklyStat({
+        state: sample.state,
+        district: sample.district,
+        stateKey: sample.state.toLowerCase(),
+        districtKey: sample.district.toLowerCase(),
+        conditionKey: sample.conditionKey,
+        condition: sample.condition,
+        subject: sample.subject,
+        weekStart: week,
+        cases,
+        baselineCases,
+        isSpike: isOutbreakSpike(cases, baselineCases),
+      });
+      if (!stat.isSpike) continue;
+      spikes.push(stat);
+      if (!stat.alertedAt) alertsSent += await sendOutbreakAlerts(stat);
+    }
+  }
+
+  return { weeks, groups: groups.size, spikes, alertsSent };
+}
+
+// In-process schedule, hourly by default (OUTBREAK_AGGREGATION_INTERVAL_MINUTES, 0 turns it off);
+// admins can also trigger a run with POST /api/admin/outbreaks/run
+export function startOutbreakAggregation(): NodeJS.Timeout | null {
+  const minutes = Number(process.env.OUTBREAK_AGGREGATION_INTERVAL_MINUTES ?? 60);
+  if (!minutes || minutes <= 0) return null;
+  const timer = setInterval(() => {
+    runOutbreakAggregation().catch(error => console.error("Outbreak aggregation error:", error));
+  }, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+}
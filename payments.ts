@@ -0,0 +1,307 @@
+import crypto from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { storage } from "./storage";
+import { getBookingAmount, redeemPromoCode } from "./pricing";
+import { autoAssignBooking } from "./assignment";
+import { isReleasedSlotStillFree, withSlotReservation } from "./scheduling";
+import type { Booking, Payment } from "@shared/schema";
+
+// Payment gateway abstraction - pick the provider with PAYMENT_PROVIDER (razorpay, fake)
+export interface PaymentOrder {
+  orderId: string;
+  checkoutUrl?: string;
+}
+
+export interface PaymentWebhookEvent {
+  type: "payment.captured" | "payment.failed" | "refund.processed";
+  orderId: string;
+  paymentId?: string;
+  refundId?: string;
+  reason?: string;
+}
+
+export interface PaymentRefund {
+  refundId: string;
+  status: "pending" | "processed";
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  readonly signatureHeader: string; // request header carrying the webhook signature
+  readonly checkoutKeyId?: string; // public key the client checkout needs, if any
+  createOrder(input: { amount: number; currency: string; receipt: string }): Promise<PaymentOrder>;
+  verifyWebhookSignature(rawBody: Buffer, signature: string | undefined): boolean;
+  parseWebhookEvent(body: any): PaymentWebhookEvent | null;
+  refund(input: { orderId: string; paymentId: string; amount: number }): Promise<PaymentRefund>;
+  cancelOrder(orderId: string): Promise<void>;
+}
+
+const WEBHOOK_SECRET = process.env.PAYMENT_WEBHOOK_SECRET || (process.env.NODE_ENV === "production" ? "" : "kisandecks-dev-webhook-secret");
+if (!WEBHOOK_SECRET) {
+  throw new Error("PAYMENT_WEBHOOK_SECRET must be set in production");
+}
+
+export function signWebhookPayload(rawBody: Buffer | string, secret: string = WEBHOOK_SECRET): string {
+  return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+function matchesWebhookSignature(rawBody: Buffer, signature: string | undefined): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signWebhookPayload(rawBody), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export const PAYMENT_WEBHOOK_PATH = "/api/payments/webhook";
+
+// `verify` callback for express.json(): keeps the exact bytes of payment webhooks for the signature check.
+// It has to be on the app-wide JSON parser, because a body parsed earlier is never parsed again
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer) {
+  if (req.url?.split("?")[0] === PAYMENT_WEBHOOK_PATH) {
+    (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buf;
+  }
+}
+
+// Local provider for development and tests - no network, HMAC-signed webhooks
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  readonly signatureHeader = "x-payment-signature";
+
+  async createOrder(input: { amount: number; currency: string; receipt: string }): Promise<PaymentOrder> {
+    const orderId = `fake_order_${crypto.randomBytes(8).toString("hex")}`;
+    return { orderId, checkoutUrl: `/api/payments/fake/${orderId}/complete` };
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string | undefined): boolean {
+    return matchesWebhookSignature(rawBody, signature);
+  }
+
+  parseWebhookEvent(body: any): PaymentWebhookEvent | null {
+    if (!body || typeof body.orderId !== "string") return null;
+    if (!["payment.captured", "payment.failed", "refund.processed"].includes(body.type)) return null;
+    return {
+      type: body.type,
+      orderId: body.orderId,
+      paymentId: body.paymentId,
+      refundId: body.refundId,
+      reason: body.reason,
+    };
+  }
+
+  async refund(input: { orderId: string; paymentId: string; amount: number }): Promise<PaymentRefund> {
+    return { refundId: `fake_refund_${crypto.randomBytes(8).toString("hex")}`, status: "processed" };
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {}
+}
+
+const GATEWAY_TIMEOUT_MS = 15000;
+
+// Razorpay Orders API with its standard checkout. Amounts go over the wire in paise; webhooks are signed
+// with the dashboard webhook secret (PAYMENT_WEBHOOK_SECRET) the same way as ours
+export class RazorpayPaymentProvider implements PaymentProvider {
+  readonly name = "razorpay";
+  readonly signatureHeader = "x-razorpay-signature";
+
+  constructor(readonly checkoutKeyId: string, private keySecret: string) {}
+
+  private async request(method: string, path: string, body: unknown): Promise<any> {
+    const response = await fetch(`https://api.razorpay.com/v1${path}`, {
+      method,
+      headers: {
+        "Authorization": `Basic ${Buffer.from(`${this.checkoutKeyId}:${this.keySecret}`).toString("base64")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS),
+    });
+    const result: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error?.description || `Razorpay request failed with ${response.status}`);
+    }
+    return result;
+  }
+
+  async createOrder(input: { amount: number; currency: string; receipt: string }): Promise<PaymentOrder> {
+    const order = await this.request("POST", "/orders", { amount: input.amount * 100, currency: input.currency, receipt: input.receipt });
+    return { orderId: order.id };
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string | undefined): boolean {
+    return matchesWebhookSignature(rawBody, signature);
+  }
+
+  parseWebhookEvent(body: any): PaymentWebhookEvent | null {
+    // Refund events carry the payment entity too, which is where the order id lives
+    const payment = body?.payload?.payment?.entity;
+    if (!payment || typeof payment.order_id !== "string") return null;
+    switch (body.event) {
+      case "payment.captured":
+        return { type: "payment.captured", orderId: payment.order_id, paymentId: payment.id };
+      case "payment.failed":
+        return { type: "payment.failed", orderId: payment.order_id, paymentId: payment.id, reason: payment.error_description };
+      case "refund.processed":
+        return { type: "refund.processed", orderId: payment.order_id, paymentId: payment.id, refundId: body.payload.refund?.entity?.id };
+      default:
+        return null;
+    }
+  }
+
+  async refund(input: { orderId: string; paymentId: string; amount: number }): Promise<PaymentRefund> {
+    const refund = await this.request("POST", `/payments/${encodeURIComponent(input.paymentId)}/refund`, { amount: input.amount * 100 });
+    return { refundId: refund.id, status: refund.status === "processed" ? "processed" : "pending" };
+  }
+
+  // Razorpay orders can't be cancelled; an unpaid order simply expires, and a late capture on a
+  // cancelled booking is refunded by handlePaymentWebhook
+  async cancelOrder(orderId: string): Promise<void> {}
+}
+
+export function createPaymentProvider(): PaymentProvider {
+  const provider = process.env.PAYMENT_PROVIDER;
+  // The fake checkout is switched off in production, so nothing could ever be paid there
+  if (process.env.NODE_ENV === "production" && provider !== "razorpay") {
+    throw new Error("PAYMENT_PROVIDER must be set to a real gateway (razorpay) in production");
+  }
+  switch (provider) {
+    case "razorpay": {
+      const keyId = process.env.RAZORPAY_KEY_ID;
+      const keySecret = process.env.RAZORPAY_KEY_SECRET;
+      if (!keyId || !keySecret) throw new Error("RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET must be set when PAYMENT_PROVIDER=razorpay");
+      return new RazorpayPaymentProvider(keyId, keySecret);
+    }
+    case undefined:
+    case "":
+    case "fake":
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${provider}"`);
+  }
+}
+
+export let paymentProvider: PaymentProvider = createPaymentProvider();
+
+// Swap the active provider (used by tests)
+export function setPaymentProvider(provider: PaymentProvider) {
+  paymentProvider = provider;
+}
+
+const cancelledBookingStatuses = ["cancelled-by-farmer", "cancelled-by-expert"];
+const payableBookingStatuses = ["PENDING", "FAILED"] as const;
+
+// Create (or reuse) the open payment order for a booking; undefined once the booking can't be paid.
+// Runs under a per-booking lock so concurrent calls can't open two orders
+export async function createPaymentForBooking(bookingId: number): Promise<Payment | undefined> {
+  return await storage.withAdvisoryLock(`payment-order:${bookingId}`, async () => {
+    const booking = await storage.getBookingById(bookingId);
+    if (!booking || cancelledBookingStatuses.includes(booking.sessionStatus)) return undefined;
+    if (!(payableBookingStatuses as readonly string[]).includes(booking.paymentStatus)) return undefined;
+
+    const existing = await storage.getPaymentsByBookingId(booking.id);
+    const open = existing.find(p => p.status === "created");
+    if (open) return open;
+
+    const amount = getBookingAmount(booking);
+    const order = await paymentProvider.createOrder({ amount, currency: "INR", receipt: booking.sessionId });
+    return await storage.createPayment({
+      bookingId: booking.id,
+      provider: paymentProvider.name,
+      providerOrderId: order.orderId,
+      amount,
+      currency: "INR",
+    });
+  });
+}
+
+// Apply a verified gateway event to the payment and its booking (idempotent)
+export async function handlePaymentWebhook(event: PaymentWebhookEvent): Promise<Payment | undefined> {
+  const payment = await storage.getPaymentByProviderOrderId(event.orderId);
+  if (!payment) return undefined;
+
+  switch (event.type) {
+    case "payment.captured": {
+      const updated = await storage.updatePaymentStatus(payment.id, "paid", "Gateway captured payment", { providerPaymentId: event.paymentId ?? null }, ["created", "failed", "cancelled"]);
+      if (!updated) return await storage.getPaymentById(payment.id);
+      const booking = await storage.getBookingById(payment.bookingId);
+      if (booking && cancelledBookingStatuses.includes(booking.sessionStatus)) {
+        // Paid after the booking was cancelled: give the money back instead of marking it PAID
+        return await refundBookingPayment(booking, "Captured after the booking was cancelled") ?? updated;
+      }
+      if (!booking) return updated;
+      // Only the first capture pays for the booking; a second order captured for it is given back
+      const markPaid = () => storage.updateBookingPaymentStatus(booking.sessionId, "PAID", payableBookingStatuses);
+      // A FAILED booking released its slot, so it can only be paid for while nobody else has taken it
+      const paidBooking = booking.paymentStatus === "FAILED"
+        ? await withSlotReservation(booking.category, async () => await isReleasedSlotStillFree(booking) ? await markPaid() : null)
+        : await markPaid();
+      if (paidBooking === null) {
+        return await refundPayment(updated, "The booked slot was taken before the payment went through") ?? updated;
+      }
+      if (!paidBooking) {
+        return await refundPayment(updated, `Booking was already ${booking.paymentStatus.toLowerCase()}`) ?? updated;
+      }
+      // The discount is already charged, so a code that ran out meanwhile is only logged
+      if (!(await redeemPromoCode(booking.promoCode))) {
+        console.warn(`Promo code ${booking.promoCode} was over its usage limit when booking ${booking.sessionId} was paid`);
+      }
+      // A paid booking is ready for an expert; admins can still assign by hand if none fits
+      if (!booking.expertId) {
+        await autoAssignBooking(booking.id).catch(err => console.error("Auto-assign error:", err));
+      }
+      return updated;
+    }
+    case "payment.failed": {
+      const updated = await storage.updatePaymentStatus(payment.id, "failed", event.reason || "Gateway reported failure", {}, ["created"]);
+      if (!updated) return await storage.getPaymentById(payment.id);
+      const booking = await storage.getBookingById(payment.bookingId);
+      if (booking) await storage.updateBookingPaymentStatus(booking.sessionId, "FAILED", ["PENDING"]);
+      return updated;
+    }
+    case "refund.processed": {
+      const updated = await storage.updatePaymentStatus(payment.id, "refunded", "Gateway processed refund", { providerRefundId: event.refundId ?? payment.providerRefundId }, ["paid", "refund-pending"]);
+      if (!updated) return await storage.getPaymentById(payment.id);
+      const booking = await storage.getBookingById(payment.bookingId);
+      // Refunding a duplicate capture leaves the booking paid by its other payment
+      const stillPaid = booking && (await storage.getPaymentsByBookingId(booking.id)).some(p => p.status === "paid");
+      if (booking && !stillPaid) {
+        await storage.updateBookingPaymentStatus(booking.sessionId, "REFUNDED");
+        await storage.voidExpertPayoutForBooking(booking.id);
+      }
+      return updated;
+    }
+  }
+}
+
+// Give one captured payment back at the gateway; the booking's payment status is left to the caller
+async function refundPayment(paid: Payment, reason: string): Promise<Payment | undefined> {
+  const refund = await paymentProvider.refund({ orderId: paid.providerOrderId, paymentId: paid.providerPaymentId || "", amount: paid.amount });
+  if (refund.status === "processed") {
+    return await storage.updatePaymentStatus(paid.id, "refunded", reason, { providerRefundId: refund.refundId }, ["paid", "refund-pending"]) ?? await storage.getPaymentById(paid.id);
+  }
+  return await storage.updatePaymentStatus(paid.id, "refund-pending", reason, { providerRefundId: refund.refundId }, ["paid"]) ?? await storage.getPaymentById(paid.id);
+}
+
+// Refund the captured payment of a booking, e.g. when the expert cancels
+export async function refundBookingPayment(booking: Booking, reason: string): Promise<Payment | undefined> {
+  const bookingPayments = await storage.getPaymentsByBookingId(booking.id);
+  const paid = bookingPayments.find(p => p.status === "paid");
+  if (!paid) return undefined;
+
+  const refunded = await refundPayment(paid, reason);
+  if (refunded?.status === "refunded") {
+    await storage.updateBookingPaymentStatus(booking.sessionId, "REFUNDED");
+  }
+  return refunded;
+}
+
+// Close the booking's unpaid orders at the gateway so a cancelled booking can't be paid for
+export async function cancelOpenPayments(booking: Booking, reason: string): Promise<Payment[]> {
+  const open = (await storage.getPaymentsByBookingId(booking.id)).filter(p => p.status === "created");
+  const cancelled: Payment[] = [];
+  for (const payment of open) {
+    await paymentProvider.cancelOrder(payment.providerOrderId);
+    const updated = await storage.updatePaymentStatus(payment.id, "cancelled", reason, {}, ["created"]);
+    if (updated) cancelled.push(updated);
+  }
+  return cancelled;
+}
@@ -0,0 +1,111 @@
+import { storage } from "./storage";
+import type { Booking, PromoCode } from "@shared/schema";
+
+// Used when no catalog row exists for a category and mode
+export const DEFAULT_CONSULTATION_FEE = Number(process.env.CONSULTATION_FEE || 99);
+
+// What the farmer is charged; bookings created before pricing existed have no locked fee
+export function getBookingAmount(booking: Booking): number {
+  return booking.feeAmount ?? DEFAULT_CONSULTATION_FEE;
+}
+
+export interface ConsultationQuote {
+  category: string;
+  mode: string;
+  expertId: number | null;
+  baseAmount: number;
+  feeSource: "catalog" | "expert-override" | "default";
+  freeFirstConsult: boolean;
+  promoCode: string | null;
+  discountAmount: number;
+  amount: number;
+}
+
+// Thrown for quote problems a farmer can fix (bad promo code, unknown expert)
+export class PricingError extends Error {
+  constructor(message: string, public messageHindi: string, public status: number = 400) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+function validatePromo(promo: PromoCode | undefined, category: string): PromoCode {
+  const now = new Date();
+  if (!promo || !promo.isActive) {
+    throw new PricingError("Invalid promo code", "गलत प्रोमो कोड");
+  }
+  if ((promo.validFrom && now < new Date(promo.validFrom)) || (promo.validUntil && now > new Date(promo.validUntil))) {
+    throw new PricingError("Promo code has expired", "प्रोमो कोड की अवधि समाप्त हो गई है");
+  }
+  if (promo.maxUses != null && promo.usedCount >= promo.maxUses) {
+    throw new PricingError("Promo code usage limit reached", "प्रोमो कोड की उपयोग सीमा पूरी हो गई है");
+  }
+  if (promo.category && promo.category !== category) {
+    throw new PricingError("Promo code is not valid for this consultation", "यह प्रोमो कोड इस परामर्श के लिए मान्य नहीं है");
+  }
+  return promo;
+}
+
+// A farmer's first consultation is one with no earlier paid or free booking
+async function isFirstConsultation(farmerId: number): Promise<boolean> {
+  const previous = await storage.getBookingsByFarmerId(farmerId);
+  return !previous.some(b => b.paymentStatus === "PAID" || b.paymentStatus === "FREE");
+}
+
+export async function quoteConsultation(input: {
+  farmerId: number;
+  category: string;
+  mode: string;
+  expertId?: number;
+  promoCode?: string;
+}): Promise<ConsultationQuote> {
+  const { farmerId, category, mode } = input;
+
+  const fee = await storage.getConsultationFee(category, mode);
+  let baseAmount = fee ? fee.amount : DEFAULT_CONSULTATION_FEE;
+  let feeSource: ConsultationQuote["feeSource"] = fee ? "catalog" : "default";
+
+  if (input.expertId) {
+    const expert = await storage.getExpertById(input.expertId);
+    if (!expert || expert.status !== "approved" || !expert.isActive || expert.category !== category) {
+      throw new PricingError("Selected expert is not available for this category", "चुने गए विशेषज्ञ इस श्रेणी के लिए उपलब्ध नहीं हैं");
+    }
+    const override = await storage.getExpertFeeOverride(expert.id, mode);
+    if (override) {
+      baseAmount = override.amount;
+      feeSource = "expert-override";
+    }
+  }
+
+  const freeFirstConsult = Boolean(fee?.firstConsultFree) && await isFirstConsultation(farmerId);
+
+  let promo: PromoCode | null = null;
+  let discountAmount = 0;
+  if (freeFirstConsult) {
+    discountAmount = baseAmount;
+  } else if (input.promoCode) {
+    promo = validatePromo(await storage.getPromoCodeByCode(input.promoCode.trim()), category);
+    discountAmount = promo.discountType === "percent"
+      ? Math.round(baseAmount * Math.min(promo.discountValue, 100) / 100)
+      : Math.min(promo.discountValue, baseAmount);
+  }
+
+  return {
+    category,
+    mode,
+    expertId: input.expertId ?? null,
+    baseAmount,
+    feeSource,
+    freeFirstConsult,
+    promoCode: promo ? promo.code : null,
+    discountAmount,
+    amount: Math.max(0, baseAmount - discountAmount),
+  };
+}
+
+// Count a promo code as used once its booking is paid (or booked free); false when the limit was already reached
+export async function redeemPromoCode(code: string | null): Promise<boolean> {
+  if (!code) return true;
+  const promo = await storage.getPromoCodeByCode(code);
+  return promo ? await storage.incrementPromoCodeUsage(promo.id) : false;
+}
@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+
+// Ratings at or below this are flagged for admin follow-up
+export const LOW_RATING_THRESHOLD = 2;
+
+// Bayesian average: new experts start near PRIOR_RATING and move towards their own
+// average as reviews come in, so one 5-star review doesn't outrank fifty 4.8s
+const PRIOR_RATING = 4;
+const PRIOR_WEIGHT = 5;
+
+export interface ExpertReputation {
+  expertId: number;
+  ratingCount: number;
+  averageRating: number | null;
+  score: number; // 0-5, used for ranking
+}
+
+export function computeReputation(expertId: number, count: number, average: number | null): ExpertReputation {
+  const total = (average ?? 0) * count;
+  const score = (PRIOR_RATING * PRIOR_WEIGHT + total) / (PRIOR_WEIGHT + count);
+  return {
+    expertId,
+    ratingCount: count,
+    averageRating: count > 0 && average != null ? Math.round(average * 10) / 10 : null,
+    score: Math.round(score * 100) / 100,
+  };
+}
+
+export function isLowRating(rating: number): boolean {
+  return rating <= LOW_RATING_THRESHOLD;
+}
+
+// Reputation for every expert; experts without reviews get the prior score
+export async function getExpertReputations(): Promise<Map<number, ExpertReputation>> {
+  const stats = await storage.getExpertRatingStats();
+  return new Map(stats.map(s => [s.expertId, computeReputation(s.expertId, s.count, s.average)]));
+}
+
+export function reputationFor(reputations: Map<number, ExpertReputation>, expertId: number): ExpertReputation {
+  return reputations.get(expertId) ?? computeReputation(expertId, 0, null);
+}
@@ -1,16 +1,34 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertBookingSchema, loginSchema, insertExpertSchema, advisoryQuerySchema, visionAdvisorySchema, farmerLoginSchema, farmerRegisterSchema } from "@shared/schema";
+import { insertBookingSchema, loginSchema, insertExpertSchema, advisoryQuerySchema, visionAdvisorySchema, farmerLoginSchema, farmerRegisterSchema, insertLearningContentSchema, insertWorkshopSchema, adminRoles, bookingQuoteSchema, insertConsultationFeeSchema, insertPromoCodeSchema, consultationModes, consultationCategories, insertExpertAvailabilitySchema, expertTimeOffSchema, bookingSlotSchema, chatMessageSchema, bookingCancelSchema, bookingRescheduleSchema, insertBookingReviewSchema, insertConsultationNoteSchema, expertApplicationSchema, expertReviewSchema, settlePayoutsSchema, createAdvisorySessionSchema, updateAdvisorySessionSchema, outbreakAlertPreferenceSchema, promptTemplateSchema, promptPreviewSchema, advisoryPromptKeys, advisoryLanguages, type AdvisoryLanguage, type AdvisorySession, type Booking } from "@shared/schema";
 import crypto from "crypto";
 import { fromError } from "zod-validation-error";
 import bcrypt from "bcrypt";
-import OpenAI from "openai";
 import { getLiveDataContext, refreshAllData, fetchMandiPrices } from "./data-ingestion";
+import { buildAdvisoryMessages, getFarmerAdvisoryContext, formatFarmerProfile, farmerLanguage, buildAdvisoryTranscript, advisorySessionTitle, recentHistoryMessages, parseChatImageUrls, DEFAULT_ADVISORY_SESSION_TITLE } from "./advisory";
+import { getWeatherCondition } from "./weather";
+import { builtinPromptTemplates, getActivePrompt, renderPromptTemplate, renderSystemPrompt, formatLiveData, currentPromptDate } from "./prompt-registry";
+import { generateLlmText, streamLlmText, type LlmContentPart } from "./llm-provider";
+import { runVisionDiagnosis, parseStoredDiagnosis, DIAGNOSIS_FORMAT_INSTRUCTIONS } from "./vision-diagnosis";
+import { recordDiagnosisReport, runOutbreakAggregation, startOutbreakAggregation, istWeekStart, addWeeks } from "./outbreaks";
 import { generateMarketPrices, getStatesWithMarkets, getCommodityCategories, getDistrictsForState, getMarketsForState, allCommodities } from "./marketData";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import { sendOtp, verifyOtp, requireVerifiedOtp, consumeOtp, OtpError } from "./otp-service";
+import { sendSms, verifySmsWebhookSecret } from "./sms";
+import { hasPermission, getPermissionsForRole, type AdminPermission } from "./admin-permissions";
+import { z } from "zod";
+import { quoteConsultation, redeemPromoCode, PricingError } from "./pricing";
+import { rankExperts, autoAssignBooking } from "./assignment";
+import { transitionBooking, assignExpert, rescheduleBooking, isFarmerCancellationRefundable, BookingTransitionError } from "./booking-lifecycle";
+import { getExpertReputations, reputationFor, isLowRating } from "./reputation";
+import { buildConsultationSummary, renderConsultationSummaryHtml, parsePrescriptions, parseImageUrls } from "./consultation-notes";
+import { summarizePayouts, buildPayoutStatementCsv, PLATFORM_COMMISSION_PERCENT } from "./earnings";
+import { attachChatServer, createChatToken, getChatParticipant, canSendChatMessage, postChatMessage, markChatRead, CHAT_WS_PATH } from "./booking-chat";
+import { getExpertSlots, getCategorySlots, resolveBookingSlot, withSlotReservation, parseIstDateTime, formatIst, toIstDate, holdsSlot, SchedulingError, IST_TIMEZONE } from "./scheduling";
+import { paymentProvider, createPaymentForBooking, handlePaymentWebhook, refundBookingPayment, cancelOpenPayments, signWebhookPayload, captureRawBody, PAYMENT_WEBHOOK_PATH, type PaymentWebhookEvent } from "./payments";
 
 // Configure multer for image uploads
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -18,6 +36,18 @@ if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
 
+// Chat attachments, consultation note photos, advisory photos and expert documents live outside the
+// public uploads folder and are only served through routes that check who is asking
+const privateUploadDir = path.join(process.cwd(), "private-uploads");
+const privateUploadSubdirs = ["chat", "notes", "advisory", "expert-documents"];
+const [chatUploadDir, notesUploadDir, advisoryUploadDir, expertDocumentsDir] = privateUploadSubdirs.map(dir => path.join(privateUploadDir, dir));
+for (const dir of privateUploadSubdirs) {
+  const privateDir = path.join(privateUploadDir, dir);
+  if (!fs.existsSync(privateDir)) {
+    fs.mkdirSync(privateDir, { recursive: true });
+  }
+}
+
 const multerStorage = multer.diskStorage({
   destination: (_req, _file, cb) => cb(null, uploadDir),
   filename: (_req, file, cb) => {
@@ -26,31 +56,82 @@ const multerStorage = multer.diskStorage({
   },
 });
 
+const MAX_NOTE_IMAGES = 5;
+const MAX_VISION_IMAGES = 4; // per message, e.g. leaf close-up, whole plant, field
+const MAX_VISION_CONTEXT_IMAGES = 6; // new plus earlier photos sent to the model
+
+// Private uploads are saved under the extension of their MIME type, whatever the client named them
+const imageExtensions: Record<string, string> = { "image/jpeg": ".jpg", "image/png": ".png", "image/webp": ".webp" };
+const documentExtensions: Record<string, string> = { ...imageExtensions, "application/pdf": ".pdf" };
+
+const imageFileFilter: multer.Options["fileFilter"] = (_req, file, cb) => {
+  const allowedTypes = ["image/jpeg", "image/png", "image/webp"];
+  if (allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error("Only JPEG, PNG and WebP images are allowed"));
+  }
+};
+
 const upload = multer({
   storage: multerStorage,
   limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+  fileFilter: imageFileFilter,
+});
+
+// Photos written straight into a private folder, so they are never reachable under /uploads
+const privateImageUpload = (destination: string) => multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => cb(null, destination),
+    filename: (_req, file, cb) => {
+      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+      cb(null, uniqueSuffix + imageExtensions[file.mimetype]);
+    },
+  }),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+  fileFilter: imageFileFilter,
+});
+const chatImageUpload = privateImageUpload(chatUploadDir);
+const noteImageUpload = privateImageUpload(notesUploadDir);
+const advisoryImageUpload = privateImageUpload(advisoryUploadDir);
+
+// Expert qualification documents (certificates, degree copies) - PDFs allowed, stored privately
+const MAX_EXPERT_DOCUMENTS = 5;
+const EXPERT_APPLICATION_WINDOW_MS = 60 * 60 * 1000; // throttling window: 1 hour
+const MAX_EXPERT_APPLICATIONS_PER_IP = 3;
+
+const documentUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => cb(null, expertDocumentsDir),
+    filename: (_req, file, cb) => {
+      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+      cb(null, uniqueSuffix + documentExtensions[file.mimetype]);
+    },
+  }),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
   fileFilter: (_req, file, cb) => {
-    const allowedTypes = ["image/jpeg", "image/png", "image/webp"];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (Object.keys(documentExtensions).includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error("Only JPEG, PNG and WebP images are allowed"));
+      cb(new Error("Only PDF, JPEG, PNG and WebP documents are allowed"));
     }
   },
 });
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-// This is using Replit's AI Integrations service, which provides OpenAI-compatible API access without requiring your own OpenAI API key.
-const openai = new OpenAI({
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
-});
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // exact bytes of signed webhook bodies
+    }
+  }
+}
 
 declare module "express-session" {
   interface SessionData {
     adminId?: number;
     expertId?: number;
     farmerId?: number;
+    advisorySessionIds?: string[]; // advisory sessions started before logging in
   }
 }
 
@@ -62,6 +143,49 @@ const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
+// Middleware to check that the logged-in admin's role grants a permission
+const requireAdminPermission = (permission: AdminPermission) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session?.adminId) {
+      return res.status(401).json({ error: "Admin authentication required" });
+    }
+    try {
+      const admin = await storage.getAdminById(req.session.adminId);
+      if (!admin) {
+        return res.status(401).json({ error: "Admin not found" });
+      }
+      if (!hasPermission(admin.role, permission)) {
+        return res.status(403).json({ error: "You do not have permission for this action", permission });
+      }
+      next();
+    } catch (error) {
+      console.error("Admin permission check error:", error);
+      res.status(500).json({ error: "Failed to check permissions" });
+    }
+  };
+
+// Record an admin action in the audit log; failures are logged, never surfaced
+const recordAdminAction = async (
+  req: Request,
+  action: string,
+  targetType: string | null,
+  targetId: string | number | null,
+  details?: Record<string, any>
+) => {
+  try {
+    await storage.createAdminAuditLog({
+      adminId: req.session.adminId!,
+      action,
+      targetType,
+      targetId: targetId != null ? String(targetId) : null,
+      details: details ? JSON.stringify(details) : null,
+      ipAddress: req.ip || null,
+    });
+  } catch (error) {
+    console.error("Audit log error:", error);
+  }
+};
+
 // Middleware to check expert authentication
 const requireExpert = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session?.expertId) {
@@ -70,18 +194,123 @@ const requireExpert = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
-// Middleware to check farmer authentication (for learning module)
+// Middleware to check farmer authentication
 const requireFarmer = (req: Request, res: Response, next: NextFunction) => {
   if (!req.session?.farmerId) {
     return res.status(401).json({ 
       error: "Authentication required",
-      message: "Please login to access learning content",
-      messageHindi: "कृपया सीखने की सामग्री तक पहुंचने के लिए लॉगिन करें"
+      message: "Please login to continue",
+      messageHindi: "कृपया आगे बढ़ने के लिए लॉगिन करें"
     });
   }
   next();
 };
 
+// Account book and learning rows store the farmer id as a string key
+const getFarmerKey = (req: Request): string => String(req.session.farmerId!);
+
+// The booking farmer, the assigned expert and admins can see a booking's private details
+const canViewBooking = (req: Request, booking: Booking): boolean =>
+  (req.session?.farmerId != null && booking.farmerId === req.session.farmerId) ||
+  (req.session?.expertId != null && booking.expertId === req.session.expertId) ||
+  req.session?.adminId != null;
+
+const sendSchedulingError = (res: Response, error: SchedulingError) =>
+  res.status(error.status).json({ error: error.message, errorHindi: error.messageHindi });
+
+const sendTransitionError = (res: Response, error: BookingTransitionError) =>
+  res.status(error.status).json({ error: error.message, errorHindi: error.messageHindi });
+
+// Advisory sessions belong to a farmer, or to the browser session for visitors who aren't logged in
+const ownsAdvisorySession = (req: Request, session: AdvisorySession): boolean =>
+  session.farmerId != null
+    ? session.farmerId === req.session?.farmerId
+    : (req.session?.advisorySessionIds ?? []).includes(session.sessionId);
+
+const MAX_VISITOR_ADVISORY_SESSIONS = 20;
+
+// Find the advisory session a message is posted to, starting it on first use.
+// Returns undefined when the id belongs to someone else
+const resolveAdvisorySession = async (
+  req: Request,
+  sessionId: string,
+  advisoryType: string | undefined,
+  firstMessage: string | undefined
+): Promise<AdvisorySession | undefined> => {
+  const existing = await storage.getAdvisorySession(sessionId);
+  if (existing) {
+    if (!ownsAdvisorySession(req, existing)) return undefined;
+    const updates: Partial<Pick<AdvisorySession, "title" | "farmerId">> = {};
+    // A visitor who logs in keeps the conversation they started
+    if (existing.farmerId == null && req.session.farmerId) updates.farmerId = req.session.farmerId;
+    if (existing.title === DEFAULT_ADVISORY_SESSION_TITLE && firstMessage) updates.title = advisorySessionTitle(firstMessage);
+    return Object.keys(updates).length > 0 ? await storage.updateAdvisorySession(sessionId, updates) : existing;
+  }
+
+  // History written before sessions had owners stays closed rather than going to whoever asks first
+  const legacyChats = await storage.getAdvisoryChatsBySession(sessionId);
+  if (legacyChats.length > 0) return undefined;
+
+  const session = await storage.createAdvisorySession({
+    sessionId,
+    farmerId: req.session.farmerId ?? null,
+    title: advisorySessionTitle(firstMessage),
+    advisoryType: advisoryType || "general",
+  });
+  if (!session) {
+    // A concurrent first message created it; only its owner may continue
+    const created = await storage.getAdvisorySession(sessionId);
+    return created && ownsAdvisorySession(req, created) ? created : undefined;
+  }
+  if (session.farmerId == null) {
+    req.session.advisorySessionIds = [...(req.session.advisorySessionIds ?? []), sessionId].slice(-MAX_VISITOR_ADVISORY_SESSIONS);
+  }
+  return session;
+};
+
+const imageMimeTypes: Record<string, string> = { ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".png": "image/png", ".webp": "image/webp" };
+
+// Load an advisory photo (new private URL or older public /uploads URL) as a data URL for the model
+const readAdvisoryImage = async (url: string): Promise<string | null> => {
+  const filename = path.basename(url);
+  const filePath = url.startsWith("/uploads/") ? path.join(uploadDir, filename) : path.join(advisoryUploadDir, filename);
+  const mimeType = imageMimeTypes[path.extname(filename).toLowerCase()];
+  if (!mimeType) return null;
+  try {
+    const data = await fs.promises.readFile(filePath);
+    return `data:${mimeType};base64,${data.toString("base64")}`;
+  } catch {
+    return null; // photo was removed; diagnose from the rest
+  }
+};
+
+// Close a cancelled booking's unpaid orders; a capture that still gets through is refunded by the webhook
+const cancelBookingPaymentOrders = async (booking: Booking, reason: string) => {
+  try {
+    await cancelOpenPayments(booking, reason);
+  } catch (error) {
+    console.error("Payment order cancel error:", error);
+  }
+};
+
+// Refund a cancelled booking's captured payment; a failed refund is left for an admin to retry
+const refundCancelledBooking = async (booking: Booking, reason: string) => {
+  try {
+    const payment = await refundBookingPayment(booking, reason);
+    if (!payment) return null;
+    return { status: payment.status, booking: await storage.getBookingById(booking.id) };
+  } catch (error) {
+    console.error("Cancellation refund error:", error);
+    return null;
+  }
+};
+
+// One Server-Sent Events frame; skipped once the client has gone away
+const writeSseEvent = (res: Response, event: string, data: unknown) => {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -109,7 +338,7 @@ export async function registerRoutes(
       }
       
       req.session.adminId = admin.id;
-      res.json({ id: admin.id, name: admin.name, username: admin.username });
+      res.json({ id: admin.id, name: admin.name, username: admin.username, role: admin.role, permissions: getPermissionsForRole(admin.role) });
     } catch (error: any) {
       if (error.name === 'ZodError') {
         return res.status(400).json({ error: fromError(error).toString() });
@@ -134,7 +363,68 @@ export async function registerRoutes(
     const admin = await storage.getAdminById(adminId);
     if (!admin) return res.status(401).json({ error: "Admin not found" });
     
-    res.json({ id: admin.id, name: admin.name, username: admin.username });
+    res.json({ id: admin.id, name: admin.name, username: admin.username, role: admin.role, permissions: getPermissionsForRole(admin.role) });
+  });
+
+  // List admins with roles
+  app.get("/api/admin/admins", requireAdmin, async (req, res) => {
+    try {
+      const allAdmins = await storage.getAllAdmins();
+      res.json(allAdmins.map(a => ({ ...a, password: undefined })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch admins" });
+    }
+  });
+
+  // Change an admin's role (super-admin only)
+  app.patch("/api/admin/admins/:id/role", requireAdminPermission("admins:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { role } = req.body;
+      
+      if (!adminRoles.includes(role)) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+      if (id === req.session.adminId) {
+        return res.status(400).json({ error: "You cannot change your own role" });
+      }
+      
+      const admin = await storage.updateAdminRole(id, role);
+      if (!admin) return res.status(404).json({ error: "Admin not found" });
+      await recordAdminAction(req, "admin.role", "admin", admin.id, { role });
+      
+      res.json({ ...admin, password: undefined });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update role" });
+    }
+  });
+
+  // Browse the admin audit log (paginated)
+  app.get("/api/admin/audit-log", requireAdminPermission("audit:read"), async (req, res) => {
+    try {
+      const page = Math.max(1, parseInt(String(req.query.page || "1")) || 1);
+      const pageSize = Math.min(100, Math.max(1, parseInt(String(req.query.pageSize || "25")) || 25));
+      const adminId = req.query.adminId ? parseInt(String(req.query.adminId)) : undefined;
+      const action = req.query.action ? String(req.query.action) : undefined;
+      
+      const { entries, total } = await storage.getAdminAuditLog({
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+        adminId: adminId && !isNaN(adminId) ? adminId : undefined,
+        action,
+      });
+      
+      res.json({
+        entries: entries.map(e => ({ ...e, details: e.details ? JSON.parse(e.details) : null })),
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      });
+    } catch (error) {
+      console.error("Audit log fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
   });
 
   // Expert login
@@ -160,8 +450,21 @@ export async function registerRoutes(
         return res.status(403).json({ error: "Account is disabled" });
       }
       
+      if (expert.status === "pending") {
+        return res.status(403).json({
+          error: "Your application is under review",
+          errorHindi: "आपका आवेदन जांच में है",
+          status: expert.status
+        });
+      }
+      
       if (expert.status !== "approved") {
-        return res.status(403).json({ error: "Account is not approved" });
+        return res.status(403).json({
+          error: "Account is not approved",
+          errorHindi: "खाता स्वीकृत नहीं है",
+          status: expert.status,
+          reason: expert.reviewReason
+        });
       }
       
       req.session.expertId = expert.id;
@@ -174,6 +477,75 @@ export async function registerRoutes(
     }
   });
 
+  // Applications carry up to 50MB of documents, so check the per-IP limit before accepting the upload
+  const throttleExpertApplications = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const since = new Date(Date.now() - EXPERT_APPLICATION_WINDOW_MS);
+      if (req.ip && await storage.countExpertApplicationsByIpSince(req.ip, since) >= MAX_EXPERT_APPLICATIONS_PER_IP) {
+        res.setHeader("Retry-After", String(EXPERT_APPLICATION_WINDOW_MS / 1000));
+        return res.status(429).json({
+          error: "Too many applications. Please try again later.",
+          errorHindi: "बहुत अधिक आवेदन। कृपया बाद में प्रयास करें।"
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Expert application throttle error:", error);
+      res.status(500).json({ error: "Failed to submit application" });
+    }
+  };
+
+  // Public expert application; the account stays pending until an admin approves it
+  app.post("/api/expert/apply", throttleExpertApplications, documentUpload.array("documents", MAX_EXPERT_DOCUMENTS), async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const discardFiles = () => Promise.all(files.map(f => fs.promises.unlink(f.path).catch(() => undefined)));
+    try {
+      const data = expertApplicationSchema.parse(req.body);
+      if (files.length === 0) {
+        return res.status(400).json({
+          error: "Please upload at least one qualification document",
+          errorHindi: "कृपया कम से कम एक योग्यता दस्तावेज़ अपलोड करें"
+        });
+      }
+      
+      if (await storage.getExpertByUsername(data.username)) {
+        await discardFiles();
+        return res.status(400).json({ error: "Username already exists", errorHindi: "यह यूज़रनेम पहले से मौजूद है" });
+      }
+      
+      const hashedPassword = await bcrypt.hash(data.password, 10);
+      const expert = await storage.createExpert({
+        ...data,
+        password: hashedPassword,
+        status: "pending",
+        isActive: true,
+        documentUrls: JSON.stringify(files.map(f => f.filename)),
+        applicationIp: req.ip || null,
+      });
+      
+      sendSms(expert.phone, "expert-application-received", { name: expert.name })
+        .catch(err => console.error("Application SMS error:", err));
+      
+      res.status(201).json({
+        id: expert.id,
+        username: expert.username,
+        status: expert.status,
+        message: "Application submitted. You can log in once it is approved.",
+        messageHindi: "आवेदन जमा हो गया। स्वीकृति के बाद आप लॉगिन कर सकेंगे।"
+      });
+    } catch (error: any) {
+      await discardFiles();
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      if (error.message?.includes("unique")) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+      console.error("Expert application error:", error);
+      res.status(500).json({ error: "Failed to submit application" });
+    }
+  });
+
   // Expert logout
   app.post("/api/expert/logout", (req, res) => {
     req.session.destroy((err: Error | null) => {
@@ -190,7 +562,7 @@ export async function registerRoutes(
     const expert = await storage.getExpertById(expertId);
     if (!expert) return res.status(401).json({ error: "Expert not found" });
     
-    res.json({ id: expert.id, name: expert.name, username: expert.username, category: expert.category, phone: expert.phone });
+    res.json({ id: expert.id, name: expert.name, username: expert.username, category: expert.category, phone: expert.phone, acceptingBookings: expert.acceptingBookings });
   });
 
   // ========== FARMER AUTH ROUTES (for Learning Module) ==========
@@ -323,7 +695,8 @@ export async function registerRoutes(
         state: farmer.state,
         language: farmer.language,
         crops: farmer.crops,
-        profilePhoto: farmer.profilePhoto
+        profilePhoto: farmer.profilePhoto,
+        outbreakAlerts: farmer.outbreakAlerts
       }
     });
   });
@@ -395,10 +768,12 @@ export async function registerRoutes(
 
   // ========== OTP ROUTES ==========
   
-  // In-memory OTP store (in production, use Redis or database)
-  const otpStore = new Map<string, { otp: string; expiresAt: Date; verified: boolean }>();
-  // Separate store for login OTPs
-  const loginOtpStore = new Map<string, { otp: string; expiresAt: Date }>();
+  const sendOtpError = (res: Response, error: OtpError) => {
+    if (error.retryAfterSeconds) {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+    }
+    return res.status(error.status).json({ error: error.message, errorHindi: error.messageHindi });
+  };
   
   // Send OTP for login
   app.post("/api/farmer/login/send-otp", async (req, res) => {
@@ -421,15 +796,7 @@ export async function registerRoutes(
         });
       }
       
-      // Generate 6-digit OTP
-      const otp = Math.floor(100000 + Math.random() * 900000).toString();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-      
-      // Store OTP for login
-      loginOtpStore.set(phone, { otp, expiresAt });
-      
-      // In production, send SMS via Twilio
-      console.log(`[DEV] Login OTP for ${phone}: ${otp}`);
+      const { otp } = await sendOtp(phone, "login", req.ip, farmer.language);
       
       res.json({ 
         success: true,
@@ -439,6 +806,7 @@ export async function registerRoutes(
         ...(process.env.NODE_ENV !== "production" && { devOtp: otp })
       });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       console.error("Send login OTP error:", error);
       res.status(500).json({ error: "Failed to send OTP" });
     }
@@ -453,29 +821,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Phone and OTP required" });
       }
       
-      const storedData = loginOtpStore.get(phone);
-      
-      if (!storedData) {
-        return res.status(400).json({ 
-          error: "No OTP found. Please request a new one.",
-          errorHindi: "कोई OTP नहीं मिला। नया OTP भेजें।"
-        });
-      }
-      
-      if (new Date() > storedData.expiresAt) {
-        loginOtpStore.delete(phone);
-        return res.status(400).json({ 
-          error: "OTP expired. Please request a new one.",
-          errorHindi: "OTP समाप्त हो गया। नया OTP भेजें।"
-        });
-      }
-      
-      if (storedData.otp !== otp) {
-        return res.status(400).json({ 
-          error: "Invalid OTP",
-          errorHindi: "गलत OTP"
-        });
-      }
+      await verifyOtp(phone, "login", otp);
       
       // OTP verified, log in the user
       const farmer = await storage.getFarmerByPhone(phone);
@@ -491,7 +837,7 @@ export async function registerRoutes(
       await storage.updateFarmerLastLogin(farmer.id);
       
       // Clear used OTP
-      loginOtpStore.delete(phone);
+      await consumeOtp(phone, "login");
       
       req.session.farmerId = farmer.id;
       req.session.save((err) => {
@@ -505,6 +851,7 @@ export async function registerRoutes(
         });
       });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       console.error("Verify login OTP error:", error);
       res.status(500).json({ error: "OTP verification failed" });
     }
@@ -531,16 +878,7 @@ export async function registerRoutes(
         });
       }
       
-      // Generate 6-digit OTP
-      const otp = Math.floor(100000 + Math.random() * 900000).toString();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-      
-      // Store OTP
-      otpStore.set(phone, { otp, expiresAt, verified: false });
-      
-      // In production, send SMS via Twilio
-      // For now, we'll log it and show it in development
-      console.log(`[DEV] OTP for ${phone}: ${otp}`);
+      const { otp } = await sendOtp(phone, "reset-password", req.ip, farmer.language);
       
       res.json({ 
         success: true,
@@ -550,6 +888,7 @@ export async function registerRoutes(
         ...(process.env.NODE_ENV !== "production" && { devOtp: otp })
       });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       console.error("Send OTP error:", error);
       res.status(500).json({ error: "Failed to send OTP" });
     }
@@ -564,32 +903,8 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Phone and OTP required" });
       }
       
-      const storedData = otpStore.get(phone);
-      
-      if (!storedData) {
-        return res.status(400).json({ 
-          error: "OTP expired or not found",
-          errorHindi: "OTP समाप्त हो गया या नहीं मिला"
-        });
-      }
-      
-      if (new Date() > storedData.expiresAt) {
-        otpStore.delete(phone);
-        return res.status(400).json({ 
-          error: "OTP expired",
-          errorHindi: "OTP समाप्त हो गया"
-        });
-      }
-      
-      if (storedData.otp !== otp) {
-        return res.status(400).json({ 
-          error: "Invalid OTP",
-          errorHindi: "गलत OTP"
-        });
-      }
-      
-      // Mark OTP as verified
-      otpStore.set(phone, { ...storedData, verified: true });
+      // Marks the code as verified for the reset step
+      await verifyOtp(phone, "reset-password", otp);
       
       res.json({ 
         success: true,
@@ -597,6 +912,7 @@ export async function registerRoutes(
         messageHindi: "OTP सत्यापित"
       });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       console.error("Verify OTP error:", error);
       res.status(500).json({ error: "Failed to verify OTP" });
     }
@@ -618,21 +934,7 @@ export async function registerRoutes(
         });
       }
       
-      const storedData = otpStore.get(phone);
-      
-      if (!storedData || !storedData.verified) {
-        return res.status(400).json({ 
-          error: "Please verify OTP first",
-          errorHindi: "पहले OTP सत्यापित करें"
-        });
-      }
-      
-      if (storedData.otp !== otp) {
-        return res.status(400).json({ 
-          error: "Invalid OTP",
-          errorHindi: "गलत OTP"
-        });
-      }
+      await requireVerifiedOtp(phone, "reset-password", otp);
       
       // Get farmer
       const farmer = await storage.getFarmerByPhone(phone);
@@ -647,7 +949,7 @@ export async function registerRoutes(
       await storage.updateFarmerPassword(farmer.id, hashedPassword);
       
       // Clear OTP
-      otpStore.delete(phone);
+      await consumeOtp(phone, "reset-password");
       
       res.json({ 
         success: true,
@@ -655,6 +957,7 @@ export async function registerRoutes(
         messageHindi: "पासवर्ड सफलतापूर्वक बदल गया"
       });
     } catch (error: any) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
       console.error("Reset password error:", error);
       res.status(500).json({ error: "Failed to reset password" });
     }
@@ -665,20 +968,118 @@ export async function registerRoutes(
   // Get all experts (admin only)
   app.get("/api/admin/experts", requireAdmin, async (req, res) => {
     try {
-      const allExperts = await storage.getAllExperts();
-      res.json(allExperts.map(e => ({ ...e, password: undefined })));
+      const [allExperts, reputations] = await Promise.all([storage.getAllExperts(), getExpertReputations()]);
+      res.json(allExperts.map(e => ({ ...e, password: undefined, reputation: reputationFor(reputations, e.id) })));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch experts" });
     }
   });
 
+  // Reviews for admins; ?flagged=true&unresolved=true gives the low-rating queue
+  app.get("/api/admin/reviews", requireAdmin, async (req, res) => {
+    try {
+      const reviews = await storage.getReviews({
+        flagged: req.query.flagged === "true" ? true : undefined,
+        unresolvedOnly: req.query.unresolved === "true",
+        expertId: req.query.expertId ? parseInt(String(req.query.expertId)) : undefined,
+      });
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Close a flagged review after follow-up
+  app.patch("/api/admin/reviews/:id/resolve", requireAdminPermission("experts:manage"), async (req, res) => {
+    try {
+      const note = typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+      const review = await storage.resolveBookingReview(parseInt(req.params.id), req.session.adminId!, note);
+      if (!review) return res.status(404).json({ error: "Review not found" });
+      await recordAdminAction(req, "review.resolve", "review", review.id, { expertId: review.expertId, note });
+      
+      res.json(review);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resolve review" });
+    }
+  });
+
+  // Application review queue (pending by default; ?status=rejected for past rejections)
+  app.get("/api/admin/expert-applications", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status === "rejected" || req.query.status === "approved" ? String(req.query.status) : "pending";
+      const applicants = await storage.getExpertsByStatus(status);
+      res.json(applicants.map(e => ({
+        ...e,
+        password: undefined,
+        documents: (JSON.parse(e.documentUrls || "[]") as string[]).map(filename => ({
+          filename,
+          url: `/api/admin/experts/${e.id}/documents/${filename}`,
+        })),
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch applications" });
+    }
+  });
+
+  // Download an applicant's qualification document
+  app.get("/api/admin/experts/:id/documents/:filename", requireAdmin, async (req, res) => {
+    try {
+      const expert = await storage.getExpertById(parseInt(req.params.id));
+      if (!expert) return res.status(404).json({ error: "Expert not found" });
+      
+      const filename = path.basename(req.params.filename);
+      const documents: string[] = JSON.parse(expert.documentUrls || "[]");
+      const filePath = path.join(expertDocumentsDir, filename);
+      if (!documents.includes(filename) || !fs.existsSync(filePath)) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch document" });
+    }
+  });
+
+  // Approve or reject an application and notify the applicant
+  app.post("/api/admin/experts/:id/review", requireAdminPermission("experts:manage"), async (req, res) => {
+    try {
+      const { decision, reason } = expertReviewSchema.parse(req.body);
+      const existing = await storage.getExpertById(parseInt(req.params.id));
+      if (!existing) return res.status(404).json({ error: "Expert not found" });
+      if (existing.status !== "pending") {
+        return res.status(409).json({ error: `Application was already ${existing.status}` });
+      }
+      
+      const status = decision === "approve" ? "approved" : "rejected";
+      const expert = await storage.reviewExpertApplication(existing.id, status, reason || null, req.session.adminId!);
+      if (!expert) return res.status(409).json({ error: "Application was already reviewed" });
+      await recordAdminAction(req, `expert.application-${decision}`, "expert", expert.id, { reason: reason || null });
+      
+      if (status === "approved") {
+        sendSms(expert.phone, "expert-application-approved", { name: expert.name, username: expert.username })
+          .catch(err => console.error("Application SMS error:", err));
+      } else {
+        sendSms(expert.phone, "expert-application-rejected", { name: expert.name, reason })
+          .catch(err => console.error("Application SMS error:", err));
+      }
+      
+      res.json({ ...expert, password: undefined });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Expert review error:", error);
+      res.status(500).json({ error: "Failed to review application" });
+    }
+  });
+
   // Create new expert (admin only)
-  app.post("/api/admin/experts", requireAdmin, async (req, res) => {
+  app.post("/api/admin/experts", requireAdminPermission("experts:manage"), async (req, res) => {
     try {
       const expertData = insertExpertSchema.parse(req.body);
       // Hash password before storing
       const hashedPassword = await bcrypt.hash(expertData.password, 10);
       const expert = await storage.createExpert({ ...expertData, password: hashedPassword });
+      await recordAdminAction(req, "expert.create", "expert", expert.id, { username: expert.username, category: expert.category });
       res.status(201).json({ ...expert, password: undefined });
     } catch (error: any) {
       if (error.name === 'ZodError') {
@@ -691,8 +1092,8 @@ export async function registerRoutes(
     }
   });
 
-  // Update expert status (approve/reject)
-  app.patch("/api/admin/experts/:id/status", requireAdmin, async (req, res) => {
+  // Update an existing expert's status; pending applications go through /review instead
+  app.patch("/api/admin/experts/:id/status", requireAdminPermission("experts:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const { status } = req.body;
@@ -701,8 +1102,15 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid status" });
       }
       
-      const expert = await storage.updateExpertStatus(parseInt(id), status);
+      const existing = await storage.getExpertById(parseInt(id));
+      if (!existing) return res.status(404).json({ error: "Expert not found" });
+      if (existing.status === "pending") {
+        return res.status(409).json({ error: `Pending applications must be reviewed with POST /api/admin/experts/${existing.id}/review` });
+      }
+      
+      const expert = await storage.updateExpertStatus(existing.id, status);
       if (!expert) return res.status(404).json({ error: "Expert not found" });
+      await recordAdminAction(req, "expert.status", "expert", expert.id, { status });
       
       res.json({ ...expert, password: undefined });
     } catch (error) {
@@ -711,13 +1119,14 @@ export async function registerRoutes(
   });
 
   // Toggle expert active status
-  app.patch("/api/admin/experts/:id/active", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/experts/:id/active", requireAdminPermission("experts:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const { isActive } = req.body;
       
       const expert = await storage.updateExpertActive(parseInt(id), isActive);
       if (!expert) return res.status(404).json({ error: "Expert not found" });
+      await recordAdminAction(req, "expert.active", "expert", expert.id, { isActive });
       
       res.json({ ...expert, password: undefined });
     } catch (error) {
@@ -726,7 +1135,7 @@ export async function registerRoutes(
   });
 
   // Reset expert password
-  app.patch("/api/admin/experts/:id/password", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/experts/:id/password", requireAdminPermission("experts:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const { password } = req.body;
@@ -739,6 +1148,7 @@ export async function registerRoutes(
       const hashedPassword = await bcrypt.hash(password, 10);
       const expert = await storage.updateExpertPassword(parseInt(id), hashedPassword);
       if (!expert) return res.status(404).json({ error: "Expert not found" });
+      await recordAdminAction(req, "expert.password-reset", "expert", expert.id);
       
       res.json({ message: "Password updated" });
     } catch (error) {
@@ -747,10 +1157,11 @@ export async function registerRoutes(
   });
 
   // Delete expert
-  app.delete("/api/admin/experts/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/experts/:id", requireAdminPermission("experts:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteExpert(parseInt(id));
+      await recordAdminAction(req, "expert.delete", "expert", id);
       res.json({ message: "Expert deleted" });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete expert" });
@@ -758,17 +1169,66 @@ export async function registerRoutes(
   });
 
   // Assign expert to booking
-  app.patch("/api/admin/bookings/:id/assign", requireAdmin, async (req, res) => {
+  app.patch("/api/admin/bookings/:id/assign", requireAdminPermission("bookings:manage"), async (req, res) => {
     try {
       const { id } = req.params;
-      const { expertId } = req.body;
+      const { expertId, reason } = req.body;
+      
+      const existing = await storage.getBookingById(parseInt(id));
+      if (!existing) return res.status(404).json({ error: "Booking not found" });
+      const expert = await storage.getExpertById(parseInt(expertId));
+      if (!expert) return res.status(400).json({ error: "Expert not found" });
+      
+      // Manual assignment is an override, so it skips the eligibility rules
+      const booking = await assignExpert(existing, expert.id, {
+        method: "manual",
+        reason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+      }, { role: "admin", id: req.session.adminId });
+      await recordAdminAction(req, "booking.assign", "booking", booking.id, { expertId: expert.id, reason: booking.assignmentReason });
       
-      const booking = await storage.assignExpertToBooking(parseInt(id), expertId);
+      res.json(booking);
+    } catch (error: any) {
+      if (error instanceof BookingTransitionError) return sendTransitionError(res, error);
+      res.status(500).json({ error: "Failed to assign expert" });
+    }
+  });
+
+  // Ranked experts for a booking, with the reason any were skipped
+  app.get("/api/admin/bookings/:id/assignment-candidates", requireAdmin, async (req, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      
+      const candidates = await rankExperts(booking);
+      res.json(candidates.map(c => ({
+        expertId: c.expert.id,
+        name: c.expert.name,
+        category: c.expert.category,
+        activeBookings: c.activeBookings,
+        reputationScore: c.reputation.score,
+        ratingCount: c.reputation.ratingCount,
+        lastAssignedAt: c.lastAssignedAt,
+        eligible: c.eligible,
+        reason: c.reason ?? null,
+      })));
+    } catch (error) {
+      console.error("Assignment candidates error:", error);
+      res.status(500).json({ error: "Failed to rank experts" });
+    }
+  });
+
+  // Run auto-assignment for an unassigned booking
+  app.post("/api/admin/bookings/:id/auto-assign", requireAdminPermission("bookings:manage"), async (req, res) => {
+    try {
+      const { booking, assigned, reason } = await autoAssignBooking(parseInt(req.params.id));
       if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (!assigned) return res.status(409).json({ error: reason });
+      await recordAdminAction(req, "booking.auto-assign", "booking", booking.id, { expertId: booking.expertId, reason });
       
       res.json(booking);
     } catch (error) {
-      res.status(500).json({ error: "Failed to assign expert" });
+      console.error("Auto-assign error:", error);
+      res.status(500).json({ error: "Failed to auto-assign expert" });
     }
   });
 
@@ -802,56 +1262,477 @@ export async function registerRoutes(
     }
   });
 
-  // Update booking session status (expert only)
-  app.patch("/api/expert/bookings/:id/status", requireExpert, async (req, res) => {
+  // Expert on/off duty switch - auto-assignment skips experts who are off
+  app.patch("/api/expert/accepting-bookings", requireExpert, async (req, res) => {
+    try {
+      const { acceptingBookings } = z.object({ acceptingBookings: z.boolean() }).parse(req.body);
+      const expert = await storage.updateExpertAcceptingBookings(req.session.expertId!, acceptingBookings);
+      if (!expert) return res.status(404).json({ error: "Expert not found" });
+      res.json({ acceptingBookings: expert.acceptingBookings });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      res.status(500).json({ error: "Failed to update availability" });
+    }
+  });
+
+  // Weekly availability (IST) and upcoming time-off for the logged-in expert
+  app.get("/api/expert/availability", requireExpert, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
       const expertId = req.session.expertId!;
-      
-      if (!["assigned", "in-progress", "completed"].includes(status)) {
-        return res.status(400).json({ error: "Invalid status" });
+      const [weekly, timeOff] = await Promise.all([
+        storage.getExpertAvailability(expertId),
+        storage.getExpertTimeOff(expertId, new Date()),
+      ]);
+      res.json({ timezone: IST_TIMEZONE, weekly, timeOff });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch availability" });
+    }
+  });
+
+  // Replace the expert's weekly availability windows
+  app.put("/api/expert/availability", requireExpert, async (req, res) => {
+    try {
+      const windows = z.array(insertExpertAvailabilitySchema).max(50).parse(req.body.weekly);
+      
+      const byDay = new Map<number, typeof windows>();
+      for (const w of windows) byDay.set(w.dayOfWeek, [...(byDay.get(w.dayOfWeek) || []), w]);
+      for (const dayWindows of Array.from(byDay.values())) {
+        const sorted = dayWindows.sort((a, b) => a.startTime.localeCompare(b.startTime));
+        if (sorted.some((w, i) => i > 0 && w.startTime < sorted[i - 1].endTime)) {
+          return res.status(400).json({
+            error: "Availability windows on the same day must not overlap",
+            errorHindi: "एक ही दिन के समय एक-दूसरे से नहीं टकराने चाहिए"
+          });
+        }
       }
       
-      // Verify booking belongs to this expert
-      const booking = await storage.getBookingById(parseInt(id));
-      if (!booking) return res.status(404).json({ error: "Booking not found" });
-      if (booking.expertId !== expertId) {
-        return res.status(403).json({ error: "Not your booking" });
+      const weekly = await storage.replaceExpertAvailability(req.session.expertId!, windows);
+      res.json({ timezone: IST_TIMEZONE, weekly });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
       }
-      
-      const updated = await storage.updateBookingSessionStatus(parseInt(id), status);
-      res.json(updated);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update status" });
+      console.error("Availability update error:", error);
+      res.status(500).json({ error: "Failed to update availability" });
     }
   });
 
-  // ========== PUBLIC BOOKING ROUTES ==========
-  
-  // Create a new booking
-  app.post("/api/bookings", async (req, res) => {
+  // Block out a period (leave, travel); existing bookings are left for the admin to reassign
+  app.post("/api/expert/availability/time-off", requireExpert, async (req, res) => {
     try {
-      const validatedData = insertBookingSchema.parse(req.body);
-      const booking = await storage.createBooking(validatedData);
-      res.status(201).json(booking);
+      const data = expertTimeOffSchema.parse(req.body);
+      const startsAt = parseIstDateTime(data.startsAt);
+      const endsAt = parseIstDateTime(data.endsAt);
+      if (!startsAt || !endsAt || endsAt <= startsAt) {
+        return res.status(400).json({
+          error: "Time-off must have a valid start before its end",
+          errorHindi: "छुट्टी का शुरू होने का समय खत्म होने से पहले होना चाहिए"
+        });
+      }
+      
+      const timeOff = await storage.createExpertTimeOff({
+        expertId: req.session.expertId!,
+        startsAt,
+        endsAt,
+        reason: data.reason || null,
+      });
+      const clashes = (await storage.getScheduledBookingsBetween(startsAt, endsAt))
+        .filter(b => b.expertId === timeOff.expertId && holdsSlot(b));
+      
+      res.status(201).json({ ...timeOff, conflictingBookings: clashes.map(b => b.sessionId) });
     } catch (error: any) {
       if (error.name === 'ZodError') {
-        const validationError = fromError(error);
-        return res.status(400).json({ error: validationError.toString() });
+        return res.status(400).json({ error: fromError(error).toString() });
       }
-      console.error("Error creating booking:", error);
-      res.status(500).json({ error: "Failed to create booking" });
+      console.error("Time-off create error:", error);
+      res.status(500).json({ error: "Failed to add time-off" });
     }
   });
 
-  // Get all bookings (public for history)
-  app.get("/api/bookings", async (req, res) => {
+  app.delete("/api/expert/availability/time-off/:id", requireExpert, async (req, res) => {
     try {
-      const allBookings = await storage.getAllBookings();
-      res.json(allBookings);
+      const deleted = await storage.deleteExpertTimeOff(parseInt(req.params.id), req.session.expertId!);
+      if (!deleted) return res.status(404).json({ error: "Time-off not found" });
+      res.json({ message: "Time-off removed" });
     } catch (error) {
-      console.error("Error fetching bookings:", error);
+      res.status(500).json({ error: "Failed to remove time-off" });
+    }
+  });
+
+  // Write or update consultation notes; new photos are added to the existing ones
+  app.put("/api/expert/bookings/:id/notes", requireExpert, noteImageUpload.array("images", MAX_NOTE_IMAGES), async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const discardFiles = () => Promise.all(files.map(f => fs.promises.unlink(f.path).catch(() => undefined)));
+    try {
+      const expertId = req.session.expertId!;
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      if (!booking) {
+        await discardFiles();
+        return res.status(404).json({ error: "Booking not found" });
+      }
+      if (booking.expertId !== expertId) {
+        await discardFiles();
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      if (!["assigned", "rescheduled", "in-progress", "completed"].includes(booking.sessionStatus)) {
+        await discardFiles();
+        return res.status(409).json({ error: `Notes cannot be written for a ${booking.sessionStatus} booking` });
+      }
+      
+      // Multipart forms send the prescription list as a JSON string
+      const body = { ...req.body };
+      if (typeof body.prescriptions === "string") {
+        try {
+          body.prescriptions = JSON.parse(body.prescriptions);
+        } catch {
+          await discardFiles();
+          return res.status(400).json({ error: "prescriptions must be a JSON array" });
+        }
+      }
+      const data = insertConsultationNoteSchema.parse(body);
+      
+      const existing = await storage.getConsultationNoteByBookingId(booking.id);
+      const imageUrls = existing ? parseImageUrls(existing) : [];
+      if (imageUrls.length + files.length > MAX_NOTE_IMAGES) {
+        await discardFiles();
+        return res.status(400).json({ error: `A consultation note can have at most ${MAX_NOTE_IMAGES} photos` });
+      }
+      imageUrls.push(...files.map(file => `/api/bookings/${booking.sessionId}/notes/images/${file.filename}`));
+      
+      const note = await storage.upsertConsultationNote(booking.id, expertId, data, imageUrls);
+      res.status(existing ? 200 : 201).json({ ...note, prescriptions: parsePrescriptions(note), imageUrls });
+    } catch (error: any) {
+      await discardFiles();
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Consultation note error:", error);
+      res.status(500).json({ error: "Failed to save consultation notes" });
+    }
+  });
+
+  // Expert earnings by month; ?from=YYYY-MM&to=YYYY-MM narrows the range
+  app.get("/api/expert/earnings", requireExpert, async (req, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.string().regex(/^\d{4}-\d{2}$/, "from must be YYYY-MM").optional(),
+        to: z.string().regex(/^\d{4}-\d{2}$/, "to must be YYYY-MM").optional(),
+      }).parse(req.query);
+      
+      const payouts = await storage.getExpertPayouts({ expertId: req.session.expertId!, fromMonth: from, toMonth: to });
+      const periods = summarizePayouts(payouts);
+      
+      res.json({
+        commissionPercent: PLATFORM_COMMISSION_PERCENT,
+        totals: {
+          bookings: periods.reduce((sum, p) => sum + p.bookings, 0),
+          grossAmount: periods.reduce((sum, p) => sum + p.grossAmount, 0),
+          expertAmount: periods.reduce((sum, p) => sum + p.expertAmount, 0),
+          settledAmount: periods.reduce((sum, p) => sum + p.settledAmount, 0),
+          unsettledAmount: periods.reduce((sum, p) => sum + p.unsettledAmount, 0),
+        },
+        periods,
+        entries: payouts,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Expert earnings error:", error);
+      res.status(500).json({ error: "Failed to fetch earnings" });
+    }
+  });
+
+  // Reviews received by the logged-in expert, with their reputation
+  app.get("/api/expert/reviews", requireExpert, async (req, res) => {
+    try {
+      const expertId = req.session.expertId!;
+      const [reviews, reputations] = await Promise.all([
+        storage.getReviewsByExpertId(expertId),
+        getExpertReputations(),
+      ]);
+      res.json({
+        reputation: reputationFor(reputations, expertId),
+        reviews: reviews.map(r => ({ id: r.id, bookingId: r.bookingId, rating: r.rating, review: r.review, createdAt: r.createdAt })),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Update booking session status (expert only)
+  app.patch("/api/expert/bookings/:id/status", requireExpert, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status, note } = req.body;
+      const expertId = req.session.expertId!;
+      
+      // Cancelling and rescheduling have their own endpoints
+      if (!["in-progress", "completed", "no-show"].includes(status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+      
+      // Verify booking belongs to this expert
+      const booking = await storage.getBookingById(parseInt(id));
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (booking.expertId !== expertId) {
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      
+      const updated = await transitionBooking(booking, status, { role: "expert", id: expertId }, {
+        reason: typeof note === "string" && note.trim() ? note.trim() : null,
+      });
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof BookingTransitionError) return sendTransitionError(res, error);
+      res.status(500).json({ error: "Failed to update status" });
+    }
+  });
+
+  // Expert cancels an assigned booking; a paid booking is refunded in full
+  app.post("/api/expert/bookings/:id/cancel", requireExpert, async (req, res) => {
+    try {
+      const { reason } = bookingCancelSchema.parse(req.body);
+      const expertId = req.session.expertId!;
+      
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (booking.expertId !== expertId) {
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      
+      const cancelled = await transitionBooking(booking, "cancelled-by-expert", { role: "expert", id: expertId }, { reason });
+      await cancelBookingPaymentOrders(cancelled, `Cancelled by expert: ${reason}`);
+      const refund = await refundCancelledBooking(cancelled, `Cancelled by expert: ${reason}`);
+      
+      sendSms(cancelled.phone, "booking-cancelled", {
+        name: cancelled.name,
+        sessionId: cancelled.sessionId,
+        refunded: refund ? "yes" : null,
+      }).catch(err => console.error("Cancellation SMS error:", err));
+      
+      res.json({ booking: refund?.booking ?? cancelled, refundStatus: refund?.status ?? null });
+    } catch (error: any) {
+      if (error instanceof BookingTransitionError) return sendTransitionError(res, error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Expert cancel error:", error);
+      res.status(500).json({ error: "Failed to cancel booking" });
+    }
+  });
+
+  // Expert moves an assigned booking to another of their free slots
+  app.post("/api/expert/bookings/:id/reschedule", requireExpert, async (req, res) => {
+    try {
+      const { slotStart, reason } = bookingRescheduleSchema.parse(req.body);
+      const expertId = req.session.expertId!;
+      
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (booking.expertId !== expertId) {
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      
+      const updated = await rescheduleBooking(booking, slotStart, { role: "expert", id: expertId }, reason);
+      
+      sendSms(updated.phone, "booking-rescheduled", {
+        name: updated.name,
+        sessionId: updated.sessionId,
+        slot: formatIst(updated.scheduledStart!),
+      }).catch(err => console.error("Reschedule SMS error:", err));
+      
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof BookingTransitionError) return sendTransitionError(res, error);
+      if (error instanceof SchedulingError) return sendSchedulingError(res, error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Expert reschedule error:", error);
+      res.status(500).json({ error: "Failed to reschedule booking" });
+    }
+  });
+
+  // ========== PUBLIC BOOKING ROUTES ==========
+  
+  // Public view of a booking: enough to confirm it, without contact details
+  const redactBooking = (booking: Booking) => ({
+    sessionId: booking.sessionId,
+    name: booking.name.split(" ")[0],
+    phone: booking.phone.length > 4 ? `${"*".repeat(booking.phone.length - 4)}${booking.phone.slice(-4)}` : "****",
+    category: booking.category,
+    mode: booking.mode,
+    paymentStatus: booking.paymentStatus,
+    sessionStatus: booking.sessionStatus,
+    scheduledStart: booking.scheduledStart,
+    scheduledEnd: booking.scheduledEnd,
+    timestamp: booking.timestamp,
+  });
+  
+  const sendPricingError = (res: Response, error: PricingError) =>
+    res.status(error.status).json({ error: error.message, errorHindi: error.messageHindi });
+  
+  // Approved experts farmers can request, best reputation first
+  app.get("/api/experts", async (req, res) => {
+    try {
+      const { category } = z.object({ category: z.enum(consultationCategories).optional() }).parse(req.query);
+      const [allExperts, reputations] = await Promise.all([storage.getAllExperts(), getExpertReputations()]);
+      
+      const listed = allExperts
+        .filter(e => e.status === "approved" && e.isActive && (!category || e.category === category))
+        .map(e => {
+          const reputation = reputationFor(reputations, e.id);
+          return {
+            id: e.id,
+            name: e.name,
+            category: e.category,
+            acceptingBookings: e.acceptingBookings,
+            averageRating: reputation.averageRating,
+            ratingCount: reputation.ratingCount,
+            reputationScore: reputation.score,
+          };
+        })
+        .sort((a, b) => b.reputationScore - a.reputationScore || b.ratingCount - a.ratingCount);
+      
+      res.json(listed);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      res.status(500).json({ error: "Failed to fetch experts" });
+    }
+  });
+  
+  // Open consultation slots for a category (or one expert) on an IST date
+  app.get("/api/bookings/slots", async (req, res) => {
+    try {
+      const { category, date, expertId } = z.object({
+        category: z.enum(consultationCategories),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "date must be YYYY-MM-DD"),
+        expertId: z.coerce.number().int().positive().optional(),
+      }).parse(req.query);
+      
+      const slots = expertId
+        ? (await getExpertSlots(expertId, date)).map(slot => ({ ...slot, available: 1 }))
+        : await getCategorySlots(category, date);
+      
+      res.json({
+        date,
+        timezone: IST_TIMEZONE,
+        slots: slots.map(slot => ({
+          start: slot.start.toISOString(),
+          end: slot.end.toISOString(),
+          label: formatIst(slot.start),
+          available: slot.available,
+        })),
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Slots error:", error);
+      res.status(500).json({ error: "Failed to fetch slots" });
+    }
+  });
+  
+  // Price a consultation before booking
+  app.post("/api/bookings/quote", requireFarmer, async (req, res) => {
+    try {
+      const { category, mode, promoCode, expertId } = bookingQuoteSchema.parse(req.body);
+      const quote = await quoteConsultation({ farmerId: req.session.farmerId!, category, mode, promoCode, expertId });
+      res.json(quote);
+    } catch (error: any) {
+      if (error instanceof PricingError) return sendPricingError(res, error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Quote error:", error);
+      res.status(500).json({ error: "Failed to price consultation" });
+    }
+  });
+  
+  // Create a new booking for the logged-in farmer, locking in the quoted fee
+  app.post("/api/bookings", requireFarmer, async (req, res) => {
+    try {
+      const validatedData = insertBookingSchema.parse(req.body);
+      const { promoCode, expertId } = bookingQuoteSchema.pick({ promoCode: true, expertId: true }).parse(req.body);
+      const { slotStart } = bookingSlotSchema.parse(req.body);
+      
+      const booking = await withSlotReservation(validatedData.category, async () => {
+        // Quote under the lock so the free-first-consultation check sees bookings made just before
+        const quote = await quoteConsultation({
+          farmerId: req.session.farmerId!,
+          category: validatedData.category,
+          mode: validatedData.mode,
+          promoCode,
+          expertId,
+        });
+        const slot = await resolveBookingSlot({ category: validatedData.category, slotStart, expertId: quote.expertId });
+        // Paid bookings redeem their promo code on capture; free ones have no capture, so redeem now
+        if (quote.amount === 0 && !(await redeemPromoCode(quote.promoCode))) {
+          throw new PricingError("Promo code usage limit reached", "प्रोमो कोड की उपयोग सीमा पूरी हो गई है");
+        }
+        const created = await storage.createBooking({
+          ...validatedData,
+          farmerId: req.session.farmerId!,
+          requestedExpertId: quote.expertId,
+          feeAmount: quote.amount,
+          discountAmount: quote.discountAmount,
+          promoCode: quote.promoCode,
+          freeFirstConsult: quote.freeFirstConsult,
+          paymentStatus: quote.amount === 0 ? "FREE" : "PENDING",
+          scheduledStart: slot.start,
+          scheduledEnd: slot.end,
+        });
+        // Bookings in another category hold a different slot lock; the database allows one free booking per farmer
+        if (!created) {
+          throw new PricingError("Your free first consultation has already been used. Please book again to see the fee.", "आपका पहला मुफ्त परामर्श पहले ही उपयोग हो चुका है। शुल्क देखने के लिए फिर से बुक करें।", 409);
+        }
+        return created;
+      });
+      
+      // Free consultations need no payment, so find an expert straight away
+      let result = booking;
+      if (booking.paymentStatus === "FREE") {
+        const assignment = await autoAssignBooking(booking.id).catch(err => {
+          console.error("Auto-assign error:", err);
+          return null;
+        });
+        if (assignment?.booking) result = assignment.booking;
+      }
+      
+      // Confirmation SMS should never block the booking itself
+      sendSms(booking.phone, "booking-confirmation", {
+        name: booking.name,
+        category: booking.category,
+        mode: booking.mode,
+        sessionId: booking.sessionId,
+        slot: booking.scheduledStart ? formatIst(booking.scheduledStart) : null,
+      }).catch(err => console.error("Booking SMS error:", err));
+      
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error instanceof PricingError) return sendPricingError(res, error);
+      if (error instanceof SchedulingError) return sendSchedulingError(res, error);
+      if (error.name === 'ZodError') {
+        const validationError = fromError(error);
+        return res.status(400).json({ error: validationError.toString() });
+      }
+      console.error("Error creating booking:", error);
+      res.status(500).json({ error: "Failed to create booking" });
+    }
+  });
+
+  // Get the logged-in farmer's bookings
+  app.get("/api/bookings", requireFarmer, async (req, res) => {
+    try {
+      const myBookings = await storage.getBookingsByFarmerId(req.session.farmerId!);
+      res.json(myBookings);
+    } catch (error) {
+      console.error("Error fetching bookings:", error);
       res.status(500).json({ error: "Failed to fetch bookings" });
     }
   });
@@ -866,15 +1747,193 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Booking not found" });
       }
       
-      res.json(booking);
+      res.json(canViewBooking(req, booking) ? booking : redactBooking(booking));
     } catch (error) {
       console.error("Error fetching booking:", error);
       res.status(500).json({ error: "Failed to fetch booking" });
     }
   });
 
-  // Update booking payment status (confirm payment)
-  app.patch("/api/bookings/:sessionId/payment", async (req, res) => {
+  // Farmer cancels their booking; refunded if paid and cancelled at least 2 hours before the slot
+  app.post("/api/bookings/:sessionId/cancel", requireFarmer, async (req, res) => {
+    try {
+      const { reason } = bookingCancelSchema.parse(req.body);
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (booking.farmerId !== req.session.farmerId) {
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      
+      const refundable = isFarmerCancellationRefundable(booking);
+      const cancelled = await transitionBooking(booking, "cancelled-by-farmer", { role: "farmer", id: req.session.farmerId }, { reason });
+      await cancelBookingPaymentOrders(cancelled, `Cancelled by farmer: ${reason}`);
+      const refund = refundable ? await refundCancelledBooking(cancelled, `Cancelled by farmer: ${reason}`) : null;
+      
+      res.json({ booking: refund?.booking ?? cancelled, refundStatus: refund?.status ?? null });
+    } catch (error: any) {
+      if (error instanceof BookingTransitionError) return sendTransitionError(res, error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Farmer cancel error:", error);
+      res.status(500).json({ error: "Failed to cancel booking" });
+    }
+  });
+
+  // Farmer moves their booking to another free slot (same expert if one is assigned)
+  app.post("/api/bookings/:sessionId/reschedule", requireFarmer, async (req, res) => {
+    try {
+      const { slotStart, reason } = bookingRescheduleSchema.parse(req.body);
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (booking.farmerId !== req.session.farmerId) {
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      
+      const updated = await rescheduleBooking(booking, slotStart, { role: "farmer", id: req.session.farmerId }, reason);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof BookingTransitionError) return sendTransitionError(res, error);
+      if (error instanceof SchedulingError) return sendSchedulingError(res, error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Farmer reschedule error:", error);
+      res.status(500).json({ error: "Failed to reschedule booking" });
+    }
+  });
+
+  // Farmer rates a completed consultation (once per booking)
+  app.post("/api/bookings/:sessionId/review", requireFarmer, async (req, res) => {
+    try {
+      const { rating, review } = insertBookingReviewSchema.parse(req.body);
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (booking.farmerId !== req.session.farmerId) {
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      if (booking.sessionStatus !== "completed" || !booking.expertId) {
+        return res.status(400).json({
+          error: "You can rate a consultation after it is completed",
+          errorHindi: "परामर्श पूरा होने के बाद ही आप रेटिंग दे सकते हैं"
+        });
+      }
+      if (await storage.getBookingReviewByBookingId(booking.id)) {
+        return res.status(409).json({
+          error: "You have already reviewed this consultation",
+          errorHindi: "आप इस परामर्श की समीक्षा पहले ही कर चुके हैं"
+        });
+      }
+      
+      const created = await storage.createBookingReview({
+        bookingId: booking.id,
+        farmerId: booking.farmerId,
+        expertId: booking.expertId,
+        rating,
+        review: review || null,
+        flagged: isLowRating(rating),
+      });
+      res.status(201).json(created);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      if (error.message?.includes("unique")) {
+        return res.status(409).json({ error: "You have already reviewed this consultation" });
+      }
+      console.error("Review create error:", error);
+      res.status(500).json({ error: "Failed to save review" });
+    }
+  });
+
+  app.get("/api/bookings/:sessionId/review", async (req, res) => {
+    try {
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      
+      if (!canViewBooking(req, booking)) return res.status(403).json({ error: "Access denied" });
+      
+      const review = await storage.getBookingReviewByBookingId(booking.id);
+      res.json(review ?? null);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch review" });
+    }
+  });
+
+  // Consultation notes and prescription (farmer, assigned expert or admin)
+  app.get("/api/bookings/:sessionId/notes", async (req, res) => {
+    try {
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (!canViewBooking(req, booking)) return res.status(403).json({ error: "Access denied" });
+      
+      const note = await storage.getConsultationNoteByBookingId(booking.id);
+      if (!note) return res.status(404).json({ error: "No notes yet", errorHindi: "अभी कोई नोट्स नहीं हैं" });
+      res.json({ ...note, prescriptions: parsePrescriptions(note), imageUrls: parseImageUrls(note) });
+    } catch (error) {
+      console.error("Consultation note fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch consultation notes" });
+    }
+  });
+
+  // Bilingual printable summary; ?format=html returns a page ready for printing
+  app.get("/api/bookings/:sessionId/notes/summary", async (req, res) => {
+    try {
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (!canViewBooking(req, booking)) return res.status(403).json({ error: "Access denied" });
+      
+      const note = await storage.getConsultationNoteByBookingId(booking.id);
+      if (!note) return res.status(404).json({ error: "No notes yet", errorHindi: "अभी कोई नोट्स नहीं हैं" });
+      
+      const expert = await storage.getExpertById(note.expertId);
+      const summary = buildConsultationSummary(booking, note, expert);
+      if (req.query.format === "html") {
+        return res.type("html").send(renderConsultationSummaryHtml(summary));
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Consultation summary error:", error);
+      res.status(500).json({ error: "Failed to build consultation summary" });
+    }
+  });
+
+  app.get("/api/bookings/:sessionId/notes/images/:filename", async (req, res) => {
+    try {
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (!canViewBooking(req, booking)) return res.status(403).json({ error: "Access denied" });
+      
+      const filename = path.basename(req.params.filename);
+      const note = await storage.getConsultationNoteByBookingId(booking.id);
+      const filePath = path.join(notesUploadDir, filename);
+      if (!note || !parseImageUrls(note).some(url => url.endsWith(`/${filename}`)) || !fs.existsSync(filePath)) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch image" });
+    }
+  });
+
+  // Status history of a booking (farmer, assigned expert or admin)
+  app.get("/api/bookings/:sessionId/events", async (req, res) => {
+    try {
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      
+      if (!canViewBooking(req, booking)) return res.status(403).json({ error: "Access denied" });
+      
+      const events = await storage.getBookingEvents(booking.id);
+      res.json(events.map(e => ({ ...e, details: e.details ? JSON.parse(e.details) : null })));
+    } catch (error) {
+      console.error("Booking events error:", error);
+      res.status(500).json({ error: "Failed to fetch booking history" });
+    }
+  });
+
+  // Update booking payment status (admin only; gateways confirm through a verified callback)
+  app.patch("/api/bookings/:sessionId/payment", requireAdminPermission("bookings:manage"), async (req, res) => {
     try {
       const { sessionId } = req.params;
       const { status } = req.body;
@@ -888,6 +1947,7 @@ export async function registerRoutes(
       if (!booking) {
         return res.status(404).json({ error: "Booking not found" });
       }
+      await recordAdminAction(req, "booking.payment-status", "booking", booking.id, { status });
       
       res.json(booking);
     } catch (error) {
@@ -896,29 +1956,766 @@ export async function registerRoutes(
     }
   });
 
+  // ========== BOOKING CHAT ROUTES ==========
+  
+  // Resolve the booking and the caller's chat role, or answer 404/403
+  const loadChatBooking = async (req: Request, res: Response) => {
+    const booking = await storage.getBookingBySessionId(req.params.sessionId);
+    if (!booking) {
+      res.status(404).json({ error: "Booking not found" });
+      return null;
+    }
+    const participant = getChatParticipant(booking, { farmerId: req.session?.farmerId, expertId: req.session?.expertId });
+    if (!participant) {
+      res.status(403).json({ error: "Only the farmer and the assigned expert can use this chat" });
+      return null;
+    }
+    return { booking, participant };
+  };
+  
+  // Short-lived token for opening the chat WebSocket
+  app.post("/api/bookings/:sessionId/chat/token", async (req, res) => {
+    try {
+      const chat = await loadChatBooking(req, res);
+      if (!chat) return;
+      if (chat.booking.mode !== "chat") {
+        return res.status(400).json({ error: "This booking is not a chat consultation", errorHindi: "यह बुकिंग चैट परामर्श नहीं है" });
+      }
+      
+      const token = createChatToken(chat.booking.id, chat.participant);
+      res.json({ token, url: `${CHAT_WS_PATH}?token=${encodeURIComponent(token)}`, role: chat.participant.role });
+    } catch (error) {
+      console.error("Chat token error:", error);
+      res.status(500).json({ error: "Failed to open chat" });
+    }
+  });
+  
+  // Chat history, oldest first; pass ?before=<messageId> for older pages
+  app.get("/api/bookings/:sessionId/messages", async (req, res) => {
+    try {
+      const chat = await loadChatBooking(req, res);
+      if (!chat) return;
+      
+      const beforeId = req.query.before ? parseInt(String(req.query.before)) : undefined;
+      const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit)) || 50));
+      const [messages, unread] = await Promise.all([
+        storage.getBookingMessages(chat.booking.id, { beforeId, limit }),
+        storage.countUnreadBookingMessages(chat.booking.id, chat.participant.role),
+      ]);
+      
+      res.json({ messages, unread, canSend: canSendChatMessage(chat.booking) });
+    } catch (error) {
+      console.error("Chat history error:", error);
+      res.status(500).json({ error: "Failed to fetch messages" });
+    }
+  });
+  
+  // Turn away callers who can't post to this chat before multer writes anything to disk
+  const requireOpenChat = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const chat = await loadChatBooking(req, res);
+      if (!chat) return;
+      if (!canSendChatMessage(chat.booking)) {
+        return res.status(409).json({ error: "Chat is closed for this booking", errorHindi: "इस बुकिंग के लिए चैट बंद है" });
+      }
+      next();
+    } catch (error) {
+      console.error("Chat access error:", error);
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  };
+  
+  // Send a message over HTTP - the only way to attach an image. The booking is checked again after
+  // the upload in case the chat closed meanwhile
+  app.post("/api/bookings/:sessionId/messages", requireOpenChat, chatImageUpload.single("image"), async (req, res) => {
+    try {
+      const chat = await loadChatBooking(req, res);
+      if (!chat) {
+        if (req.file) await fs.promises.unlink(req.file.path).catch(() => undefined);
+        return;
+      }
+      if (!canSendChatMessage(chat.booking)) {
+        if (req.file) await fs.promises.unlink(req.file.path).catch(() => undefined);
+        return res.status(409).json({ error: "Chat is closed for this booking", errorHindi: "इस बुकिंग के लिए चैट बंद है" });
+      }
+      
+      const body = typeof req.body.body === "string" && req.body.body.trim() ? chatMessageSchema.parse(req.body).body : null;
+      if (!body && !req.file) {
+        return res.status(400).json({ error: "Message or image is required" });
+      }
+      
+      const attachmentUrl = req.file ? `/api/bookings/${chat.booking.sessionId}/chat/attachments/${req.file.filename}` : null;
+      
+      const message = await postChatMessage(chat.booking, chat.participant, { body, attachmentUrl });
+      res.status(201).json(message);
+    } catch (error: any) {
+      if (req.file) await fs.promises.unlink(req.file.path).catch(() => undefined);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Chat send error:", error);
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  });
+  
+  // Read receipt for messages from the other participant
+  app.post("/api/bookings/:sessionId/messages/read", async (req, res) => {
+    try {
+      const chat = await loadChatBooking(req, res);
+      if (!chat) return;
+      
+      const upToId = Number.isInteger(req.body?.upToId) ? req.body.upToId : undefined;
+      const updated = await markChatRead(chat.booking, chat.participant, upToId);
+      res.json({ marked: updated.length });
+    } catch (error) {
+      console.error("Chat read error:", error);
+      res.status(500).json({ error: "Failed to mark messages read" });
+    }
+  });
+  
+  // Chat images, only for the booking's participants
+  app.get("/api/bookings/:sessionId/chat/attachments/:filename", async (req, res) => {
+    try {
+      const chat = await loadChatBooking(req, res);
+      if (!chat) return;
+      
+      const filename = path.basename(req.params.filename);
+      const attachmentUrl = `/api/bookings/${chat.booking.sessionId}/chat/attachments/${filename}`;
+      const message = await storage.getBookingMessageByAttachment(chat.booking.id, attachmentUrl);
+      const filePath = path.join(chatUploadDir, filename);
+      if (!message || !fs.existsSync(filePath)) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error("Chat attachment error:", error);
+      res.status(500).json({ error: "Failed to fetch image" });
+    }
+  });
+
+  // ========== PAYMENT ROUTES ==========
+  
+  // Create a payment order for the farmer's own booking
+  app.post("/api/bookings/:sessionId/payment-order", requireFarmer, async (req, res) => {
+    try {
+      const booking = await storage.getBookingBySessionId(req.params.sessionId);
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      if (booking.farmerId !== req.session.farmerId) {
+        return res.status(403).json({ error: "Not your booking" });
+      }
+      if (booking.paymentStatus === "PAID") {
+        return res.status(400).json({ error: "Booking is already paid" });
+      }
+      if (booking.paymentStatus === "FREE") {
+        return res.status(400).json({ error: "This consultation is free, no payment needed" });
+      }
+      if (booking.sessionStatus.startsWith("cancelled")) {
+        return res.status(400).json({ error: "Booking is cancelled" });
+      }
+      
+      const payment = await createPaymentForBooking(booking.id);
+      if (!payment) return res.status(409).json({ error: "This booking can no longer be paid" });
+      res.status(201).json({
+        paymentId: payment.id,
+        provider: payment.provider,
+        orderId: payment.providerOrderId,
+        amount: payment.amount,
+        currency: payment.currency,
+        ...(paymentProvider.checkoutKeyId && { keyId: paymentProvider.checkoutKeyId }),
+        ...(payment.provider === "fake" && { checkoutUrl: `/api/payments/fake/${payment.providerOrderId}/complete` }),
+      });
+    } catch (error) {
+      console.error("Payment order error:", error);
+      res.status(500).json({ error: "Failed to create payment order" });
+    }
+  });
+  
+  // Signed callback from the payment gateway; the signature covers the raw request bytes. The app-wide
+  // express.json() must pass captureRawBody as `verify`; this parser only covers apps without one
+  app.post(PAYMENT_WEBHOOK_PATH, express.json({ verify: captureRawBody }), async (req, res) => {
+    try {
+      if (!req.rawBody) {
+        console.error("Payment webhook body was parsed without captureRawBody; signatures can't be checked");
+        return res.status(500).json({ error: "Webhook is misconfigured" });
+      }
+      if (!paymentProvider.verifyWebhookSignature(req.rawBody, req.get(paymentProvider.signatureHeader))) {
+        return res.status(401).json({ error: "Invalid signature" });
+      }
+      
+      const event = paymentProvider.parseWebhookEvent(req.body);
+      if (!event) return res.status(400).json({ error: "Unsupported event" });
+      
+      const payment = await handlePaymentWebhook(event);
+      if (!payment) return res.status(404).json({ error: "Payment not found" });
+      
+      res.json({ received: true, status: payment.status });
+    } catch (error) {
+      console.error("Payment webhook error:", error);
+      res.status(500).json({ error: "Failed to process webhook" });
+    }
+  });
+  
+  // Fake checkout: simulates the gateway calling our signed webhook (development only)
+  app.post("/api/payments/fake/:orderId/complete", async (req, res) => {
+    if (process.env.NODE_ENV === "production" || paymentProvider.name !== "fake") {
+      return res.status(404).json({ error: "Not found" });
+    }
+    try {
+      const event: PaymentWebhookEvent = req.body?.status === "failed"
+        ? { type: "payment.failed", orderId: req.params.orderId, reason: "Declined at fake checkout" }
+        : { type: "payment.captured", orderId: req.params.orderId, paymentId: `fake_pay_${crypto.randomBytes(8).toString("hex")}` };
+      
+      const rawBody = Buffer.from(JSON.stringify(event));
+      if (!paymentProvider.verifyWebhookSignature(rawBody, signWebhookPayload(rawBody))) {
+        return res.status(500).json({ error: "Fake signature mismatch" });
+      }
+      
+      const payment = await handlePaymentWebhook(event);
+      if (!payment) return res.status(404).json({ error: "Payment not found" });
+      
+      res.json({ success: true, status: payment.status });
+    } catch (error) {
+      console.error("Fake checkout error:", error);
+      res.status(500).json({ error: "Fake checkout failed" });
+    }
+  });
+  
+  // Payments recorded for a booking (admin)
+  app.get("/api/admin/bookings/:id/payments", requireAdmin, async (req, res) => {
+    try {
+      const bookingPayments = await storage.getPaymentsByBookingId(parseInt(req.params.id));
+      res.json(bookingPayments.map(p => ({ ...p, statusHistory: JSON.parse(p.statusHistory) })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payments" });
+    }
+  });
+  
+  // Refund a booking's captured payment (admin)
+  app.post("/api/admin/bookings/:id/refund", requireAdminPermission("bookings:manage"), async (req, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      if (!booking) return res.status(404).json({ error: "Booking not found" });
+      
+      const reason = typeof req.body.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : "Refunded by admin";
+      const payment = await refundBookingPayment(booking, reason);
+      if (!payment) return res.status(400).json({ error: "No captured payment to refund" });
+      const voided = await storage.voidExpertPayoutForBooking(booking.id);
+      await recordAdminAction(req, "booking.refund", "booking", booking.id, { paymentId: payment.id, reason, voidedPayoutId: voided?.id ?? null });
+      
+      res.json({ success: true, payment: { ...payment, statusHistory: JSON.parse(payment.statusHistory) } });
+    } catch (error) {
+      console.error("Refund error:", error);
+      res.status(500).json({ error: "Failed to refund payment" });
+    }
+  });
+
+  // ========== OUTBREAK SURVEILLANCE ROUTES ==========
+
+  // Weekly disease/pest counts by district; ?weeks=8&state=&district=&spikesOnly=true
+  app.get("/api/admin/outbreaks", requireAdmin, async (req, res) => {
+    try {
+      const weeks = Math.min(Math.max(parseInt(String(req.query.weeks || "8")) || 8, 1), 52);
+      const currentWeek = istWeekStart(new Date());
+      const fromWeek = addWeeks(currentWeek, -(weeks - 1));
+      const stats = await storage.getOutbreakWeeklyStats({
+        fromWeek,
+        state: req.query.state ? String(req.query.state) : undefined,
+        district: req.query.district ? String(req.query.district) : undefined,
+        spikesOnly: req.query.spikesOnly === "true",
+      });
+      // Spikes from this week and last week are the ones still worth acting on
+      const activeSpikes = stats.filter(s => s.isSpike && s.weekStart >= addWeeks(currentWeek, -1));
+      res.json({ fromWeek, currentWeek, activeSpikes, stats });
+    } catch (error) {
+      console.error("Outbreak dashboard error:", error);
+      res.status(500).json({ error: "Failed to fetch outbreak data" });
+    }
+  });
+
+  // Recount now instead of waiting for the scheduled run
+  app.post("/api/admin/outbreaks/run", requireAdminPermission("data:refresh"), async (req, res) => {
+    try {
+      const summary = await runOutbreakAggregation();
+      await recordAdminAction(req, "outbreaks.run", null, null, {
+        weeks: summary.weeks,
+        spikes: summary.spikes.length,
+        alertsSent: summary.alertsSent,
+      });
+      res.json(summary);
+    } catch (error) {
+      console.error("Outbreak aggregation error:", error);
+      res.status(500).json({ error: "Failed to run outbreak aggregation" });
+    }
+  });
+
+  // Farmer opt-in for outbreak SMS, plus current spikes in their district
+  app.get("/api/farmer/outbreak-alerts", requireFarmer, async (req, res) => {
+    try {
+      const farmer = await storage.getFarmerById(req.session.farmerId!);
+      if (!farmer) return res.status(404).json({ error: "Farmer not found" });
+      
+      const alerts = farmer.state && farmer.district
+        ? await storage.getOutbreakWeeklyStats({
+          fromWeek: addWeeks(istWeekStart(new Date()), -1),
+          state: farmer.state,
+          district: farmer.district,
+          spikesOnly: true,
+        })
+        : [];
+      res.json({ enabled: farmer.outbreakAlerts, state: farmer.state, district: farmer.district, alerts });
+    } catch (error) {
+      console.error("Outbreak alerts error:", error);
+      res.status(500).json({ error: "Failed to fetch outbreak alerts" });
+    }
+  });
+
+  app.put("/api/farmer/outbreak-alerts", requireFarmer, async (req, res) => {
+    try {
+      const { enabled } = outbreakAlertPreferenceSchema.parse(req.body);
+      const farmer = await storage.updateFarmerOutbreakAlerts(req.session.farmerId!, enabled);
+      if (!farmer) return res.status(404).json({ error: "Farmer not found" });
+      if (enabled && !farmer.district) {
+        return res.json({
+          enabled,
+          warning: "Add your district to your profile to receive outbreak alerts",
+          warningHindi: "प्रकोप चेतावनी पाने के लिए अपनी प्रोफ़ाइल में ज़िला जोड़ें",
+        });
+      }
+      res.json({ enabled });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Outbreak alert preference error:", error);
+      res.status(500).json({ error: "Failed to update outbreak alerts" });
+    }
+  });
+
+  // ========== EXPERT PAYOUT ROUTES ==========
+  
+  // Payout summary per expert and month; filter with ?month=YYYY-MM&status=unsettled&expertId=
+  app.get("/api/admin/payouts", requireAdmin, async (req, res) => {
+    try {
+      const month = typeof req.query.month === "string" ? req.query.month : undefined;
+      const payouts = await storage.getExpertPayouts({
+        expertId: req.query.expertId ? parseInt(String(req.query.expertId)) : undefined,
+        fromMonth: month,
+        toMonth: month,
+        status: typeof req.query.status === "string" ? req.query.status : undefined,
+      });
+      const allExperts = await storage.getAllExperts();
+      
+      const byExpert = new Map<number, typeof payouts>();
+      for (const payout of payouts) byExpert.set(payout.expertId, [...(byExpert.get(payout.expertId) || []), payout]);
+      
+      res.json(Array.from(byExpert.entries()).map(([expertId, expertPayouts]) => ({
+        expertId,
+        expertName: allExperts.find(e => e.id === expertId)?.name ?? null,
+        periods: summarizePayouts(expertPayouts),
+      })));
+    } catch (error) {
+      console.error("Payout summary error:", error);
+      res.status(500).json({ error: "Failed to fetch payouts" });
+    }
+  });
+
+  // Mark an expert's unsettled earnings for a month as paid out
+  app.post("/api/admin/payouts/settle", requireAdminPermission("payouts:manage"), async (req, res) => {
+    try {
+      const { expertId, month, reference } = settlePayoutsSchema.parse(req.body);
+      const expert = await storage.getExpertById(expertId);
+      if (!expert) return res.status(404).json({ error: "Expert not found" });
+      
+      const settled = await storage.settleExpertPayouts(expertId, month, req.session.adminId!, reference);
+      if (settled.length === 0) {
+        return res.status(409).json({ error: "No unsettled earnings for this expert and month" });
+      }
+      const amount = settled.reduce((sum, p) => sum + p.expertAmount, 0);
+      await recordAdminAction(req, "payout.settle", "expert", expertId, { month, reference, entries: settled.length, amount });
+      
+      res.json({ expertId, month, reference, entries: settled.length, amount });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Payout settle error:", error);
+      res.status(500).json({ error: "Failed to settle payouts" });
+    }
+  });
+
+  // Monthly CSV statement for one expert
+  app.get("/api/admin/payouts/statement", requireAdmin, async (req, res) => {
+    try {
+      const { expertId, month } = settlePayoutsSchema.pick({ expertId: true, month: true }).parse(req.query);
+      const expert = await storage.getExpertById(expertId);
+      if (!expert) return res.status(404).json({ error: "Expert not found" });
+      
+      const payouts = await storage.getExpertPayouts({ expertId, fromMonth: month, toMonth: month });
+      const bookingsById = new Map((await storage.getBookingsByExpertId(expertId)).map(b => [b.id, b]));
+      const csv = buildPayoutStatementCsv(expert, month, payouts, bookingsById);
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="payout-${expert.id}-${month}.csv"`);
+      res.send(csv);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Payout statement error:", error);
+      res.status(500).json({ error: "Failed to build statement" });
+    }
+  });
+
+  // ========== PRICING ADMIN ROUTES ==========
+  
+  // Fee catalog (admin)
+  app.get("/api/admin/pricing/fees", requireAdmin, async (req, res) => {
+    try {
+      const fees = await storage.getConsultationFees();
+      res.json(fees);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch fees" });
+    }
+  });
+  
+  // Set the fee for a category and mode (admin)
+  app.put("/api/admin/pricing/fees", requireAdminPermission("pricing:manage"), async (req, res) => {
+    try {
+      const feeData = insertConsultationFeeSchema.parse(req.body);
+      const fee = await storage.upsertConsultationFee(feeData);
+      await recordAdminAction(req, "pricing.fee", "consultation-fee", fee.id, feeData);
+      res.json(fee);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      res.status(500).json({ error: "Failed to update fee" });
+    }
+  });
+  
+  // Per-expert fee overrides (admin)
+  app.get("/api/admin/pricing/experts/:id/fees", requireAdmin, async (req, res) => {
+    try {
+      const overrides = await storage.getExpertFeeOverrides(parseInt(req.params.id));
+      res.json(overrides);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch expert fees" });
+    }
+  });
+  
+  app.put("/api/admin/pricing/experts/:id/fees/:mode", requireAdminPermission("pricing:manage"), async (req, res) => {
+    try {
+      const expertId = parseInt(req.params.id);
+      const parsedMode = z.enum(consultationModes).safeParse(req.params.mode);
+      const amount = Number(req.body.amount);
+      
+      if (!parsedMode.success) {
+        return res.status(400).json({ error: "Invalid mode" });
+      }
+      const mode = parsedMode.data;
+      if (!Number.isInteger(amount) || amount < 0) {
+        return res.status(400).json({ error: "Amount must be a whole number of rupees" });
+      }
+      const expert = await storage.getExpertById(expertId);
+      if (!expert) return res.status(404).json({ error: "Expert not found" });
+      
+      const override = await storage.upsertExpertFeeOverride(expertId, mode, amount);
+      await recordAdminAction(req, "pricing.expert-fee", "expert", expertId, { mode, amount });
+      res.json(override);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update expert fee" });
+    }
+  });
+  
+  app.delete("/api/admin/pricing/experts/:id/fees/:mode", requireAdminPermission("pricing:manage"), async (req, res) => {
+    try {
+      const expertId = parseInt(req.params.id);
+      await storage.deleteExpertFeeOverride(expertId, req.params.mode);
+      await recordAdminAction(req, "pricing.expert-fee-delete", "expert", expertId, { mode: req.params.mode });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete expert fee" });
+    }
+  });
+  
+  // Promo codes (admin)
+  app.get("/api/admin/pricing/promos", requireAdmin, async (req, res) => {
+    try {
+      const promos = await storage.getPromoCodes();
+      res.json(promos);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch promo codes" });
+    }
+  });
+  
+  app.post("/api/admin/pricing/promos", requireAdminPermission("pricing:manage"), async (req, res) => {
+    try {
+      const promoData = insertPromoCodeSchema.parse(req.body);
+      const promo = await storage.createPromoCode(promoData);
+      await recordAdminAction(req, "pricing.promo-create", "promo-code", promo.id, { code: promo.code });
+      res.status(201).json(promo);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      if (error.message?.includes("unique")) {
+        return res.status(400).json({ error: "Promo code already exists" });
+      }
+      res.status(500).json({ error: "Failed to create promo code" });
+    }
+  });
+  
+  app.patch("/api/admin/pricing/promos/:id", requireAdminPermission("pricing:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const promoData = insertPromoCodeSchema.partial().parse(req.body);
+      const promo = await storage.updatePromoCode(id, promoData);
+      if (!promo) return res.status(404).json({ error: "Promo code not found" });
+      await recordAdminAction(req, "pricing.promo-update", "promo-code", id, { fields: Object.keys(promoData) });
+      res.json(promo);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      res.status(500).json({ error: "Failed to update promo code" });
+    }
+  });
+
+  // ========== SMS ROUTES ==========
+  
+  // Delivery status callback from the SMS gateway
+  app.post("/api/sms/delivery-status", async (req, res) => {
+    try {
+      if (!verifySmsWebhookSecret(req.get("x-sms-webhook-secret"))) {
+        return res.status(401).json({ error: "Invalid webhook secret" });
+      }
+      
+      const { providerMessageId, status, error } = req.body;
+      if (!providerMessageId || !["sent", "delivered", "failed"].includes(status)) {
+        return res.status(400).json({ error: "providerMessageId and a valid status are required" });
+      }
+      
+      const message = await storage.updateSmsStatusByProviderId(String(providerMessageId), status, error);
+      if (!message) return res.status(404).json({ error: "Message not found" });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("SMS delivery status error:", error);
+      res.status(500).json({ error: "Failed to update delivery status" });
+    }
+  });
+  
+  // Recent SMS log (OTP codes are redacted before they are stored)
+  app.get("/api/admin/sms", requireAdminPermission("sms:read"), async (req, res) => {
+    try {
+      const { phone, limit } = req.query;
+      const messages = await storage.getRecentSmsMessages(
+        limit ? Math.min(parseInt(String(limit)) || 100, 500) : 100,
+        phone ? String(phone) : undefined
+      );
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch SMS log" });
+    }
+  });
+
   // ========== AI ADVISORY ROUTES ==========
   
   // Refresh live data (admin only)
-  app.post("/api/advisory/refresh-data", requireAdmin, async (req, res) => {
+  app.post("/api/advisory/refresh-data", requireAdminPermission("data:refresh"), async (req, res) => {
+    try {
+      console.log("Manual data refresh triggered by admin");
+      await refreshAllData();
+      await recordAdminAction(req, "data.refresh", null, null);
+      res.json({ message: "Data refresh completed" });
+    } catch (error) {
+      console.error("Error refreshing data:", error);
+      res.status(500).json({ error: "Failed to refresh data" });
+    }
+  });
+
+  // Advisory prompt templates (admin): every saved edit becomes a new version
+  app.get("/api/admin/prompts", requireAdmin, async (req, res) => {
+    try {
+      const templates = await storage.getPromptTemplates({
+        promptKey: req.query.promptKey ? String(req.query.promptKey) : undefined,
+        language: req.query.language ? String(req.query.language) : undefined,
+      });
+      res.json({ promptKeys: advisoryPromptKeys, languages: advisoryLanguages, templates, builtin: builtinPromptTemplates });
+    } catch (error) {
+      console.error("Prompt templates error:", error);
+      res.status(500).json({ error: "Failed to fetch prompt templates" });
+    }
+  });
+
+  app.post("/api/admin/prompts", requireAdminPermission("prompts:manage"), async (req, res) => {
+    try {
+      const { activate, ...data } = promptTemplateSchema.parse(req.body);
+      const template = await storage.createPromptTemplateVersion({
+        promptKey: data.promptKey,
+        language: data.language,
+        body: data.body,
+        changeNote: data.changeNote || null,
+        createdBy: req.session.adminId!,
+      }, activate);
+      await recordAdminAction(req, "prompt.create", "prompt-template", template.id, {
+        promptKey: template.promptKey,
+        language: template.language,
+        version: template.version,
+        activate,
+      });
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Create prompt template error:", error);
+      res.status(500).json({ error: "Failed to save prompt template" });
+    }
+  });
+
+  // Make a version live (also how an admin rolls back)
+  app.post("/api/admin/prompts/:id/activate", requireAdminPermission("prompts:manage"), async (req, res) => {
+    try {
+      const template = await storage.activatePromptTemplate(parseInt(req.params.id));
+      if (!template) return res.status(404).json({ error: "Prompt template not found" });
+      await recordAdminAction(req, "prompt.activate", "prompt-template", template.id, {
+        promptKey: template.promptKey,
+        language: template.language,
+        version: template.version,
+      });
+      res.json(template);
+    } catch (error) {
+      console.error("Activate prompt template error:", error);
+      res.status(500).json({ error: "Failed to activate prompt template" });
+    }
+  });
+
+  // Render a draft (or the active version) with today's date, live data for a sample question
+  // and, optionally, a real farmer's profile
+  app.post("/api/admin/prompts/preview", requireAdmin, async (req, res) => {
+    try {
+      const { promptKey, language, body, message, farmerId } = promptPreviewSchema.parse(req.body);
+      const active = body ? null : await getActivePrompt(promptKey, language);
+      const liveData = message && (promptKey === "crop" || promptKey === "fruits")
+        ? formatLiveData(await getLiveDataContext(message))
+        : "";
+      const farmerContext = farmerId ? await getFarmerAdvisoryContext(farmerId) : null;
+      const content = renderPromptTemplate(body ?? active!.body, {
+        date: currentPromptDate(),
+        language,
+        liveData,
+        farmerProfile: farmerContext ? formatFarmerProfile(farmerContext) : "",
+      });
+      res.json({ promptKey, language, promptVersion: active ? active.label : "draft", content });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Prompt preview error:", error);
+      res.status(500).json({ error: "Failed to preview prompt" });
+    }
+  });
+
+  // Fetch prices for specific commodity
+  app.get("/api/prices/:commodity", async (req, res) => {
+    try {
+      const { commodity } = req.params;
+      const prices = await storage.getMarketPricesByCommodity(commodity);
+      res.json(prices);
+    } catch (error) {
+      console.error("Error fetching prices:", error);
+      res.status(500).json({ error: "Failed to fetch prices" });
+    }
+  });
+
+  // Start a new advisory conversation
+  app.post("/api/advisory/sessions", async (req, res) => {
+    try {
+      const { title, advisoryType } = createAdvisorySessionSchema.parse(req.body);
+      const session = await resolveAdvisorySession(req, crypto.randomUUID(), advisoryType, undefined);
+      if (title) {
+        return res.status(201).json(await storage.updateAdvisorySession(session!.sessionId, { title }));
+      }
+      res.status(201).json(session);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Create advisory session error:", error);
+      res.status(500).json({ error: "Failed to start conversation" });
+    }
+  });
+
+  // The logged-in farmer's conversations, most recent first
+  app.get("/api/advisory/sessions", requireFarmer, async (req, res) => {
+    try {
+      const archived = req.query.archived === undefined ? undefined : req.query.archived === "true";
+      const sessions = await storage.getAdvisorySessionsByFarmer(req.session.farmerId!, { archived });
+      res.json(sessions);
+    } catch (error) {
+      console.error("Advisory sessions error:", error);
+      res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+  });
+
+  // Rename or archive a conversation
+  app.patch("/api/advisory/sessions/:sessionId", requireFarmer, async (req, res) => {
+    try {
+      const updates = updateAdvisorySessionSchema.parse(req.body);
+      const session = await storage.getAdvisorySession(req.params.sessionId);
+      if (!session || !ownsAdvisorySession(req, session)) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const updated = await storage.updateAdvisorySession(session.sessionId, updates);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: fromError(error).toString() });
+      }
+      console.error("Update advisory session error:", error);
+      res.status(500).json({ error: "Failed to update conversation" });
+    }
+  });
+
+  app.delete("/api/advisory/sessions/:sessionId", requireFarmer, async (req, res) => {
     try {
-      console.log("Manual data refresh triggered by admin");
-      await refreshAllData();
-      res.json({ message: "Data refresh completed" });
+      const session = await storage.getAdvisorySession(req.params.sessionId);
+      if (!session || !ownsAdvisorySession(req, session)) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const chats = await storage.getAdvisoryChatsBySession(session.sessionId);
+      await storage.deleteAdvisorySession(session.sessionId);
+      // Photos go with the conversation (older public /uploads photos are left alone)
+      const photos = chats.flatMap(chat => parseChatImageUrls(chat)).filter(url => url.startsWith("/api/advisory/"));
+      await Promise.all(photos.map(url => fs.promises.unlink(path.join(advisoryUploadDir, path.basename(url))).catch(() => undefined)));
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error refreshing data:", error);
-      res.status(500).json({ error: "Failed to refresh data" });
+      console.error("Delete advisory session error:", error);
+      res.status(500).json({ error: "Failed to delete conversation" });
     }
   });
 
-  // Fetch prices for specific commodity
-  app.get("/api/prices/:commodity", async (req, res) => {
+  // Download a conversation as text (default) or JSON
+  app.get("/api/advisory/sessions/:sessionId/export", requireFarmer, async (req, res) => {
     try {
-      const { commodity } = req.params;
-      const prices = await storage.getMarketPricesByCommodity(commodity);
-      res.json(prices);
+      const session = await storage.getAdvisorySession(req.params.sessionId);
+      if (!session || !ownsAdvisorySession(req, session)) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      const chats = await storage.getAdvisoryChatsBySession(session.sessionId);
+      const filename = `kisandecks-advisory-${toIstDate(session.createdAt)}-${session.id}`;
+
+      if (req.query.format === "json") {
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+        return res.json({ session, messages: chats.map(chat => ({ ...chat, diagnosis: parseStoredDiagnosis(chat) })) });
+      }
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.txt"`);
+      res.send(buildAdvisoryTranscript(session, chats));
     } catch (error) {
-      console.error("Error fetching prices:", error);
-      res.status(500).json({ error: "Failed to fetch prices" });
+      console.error("Export advisory session error:", error);
+      res.status(500).json({ error: "Failed to export conversation" });
     }
   });
 
@@ -926,8 +2723,12 @@ export async function registerRoutes(
   app.get("/api/advisory/:sessionId", async (req, res) => {
     try {
       const { sessionId } = req.params;
+      const session = await storage.getAdvisorySession(sessionId);
+      if (!session || !ownsAdvisorySession(req, session)) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
       const chats = await storage.getAdvisoryChatsBySession(sessionId);
-      res.json(chats);
+      res.json(chats.map(chat => ({ ...chat, diagnosis: parseStoredDiagnosis(chat) })));
     } catch (error) {
       console.error("Error fetching advisory chats:", error);
       res.status(500).json({ error: "Failed to fetch chat history" });
@@ -938,7 +2739,12 @@ export async function registerRoutes(
   app.post("/api/advisory", async (req, res) => {
     try {
       const validatedData = advisoryQuerySchema.parse(req.body);
-      const { sessionId, message, category, advisoryType } = validatedData;
+      const { sessionId, message, category, advisoryType, language } = validatedData;
+      
+      const session = await resolveAdvisorySession(req, sessionId, advisoryType, message);
+      if (!session) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
       
       // Save user message
       await storage.createAdvisoryChat({
@@ -949,220 +2755,15 @@ export async function registerRoutes(
         imageUrl: null,
       });
       
-      // Get chat history for context
-      const history = await storage.getAdvisoryChatsBySession(sessionId);
-      
-      // Get live data context from database (for crop, fruits, and general modes)
-      const liveDataContext = (advisoryType === "crop" || advisoryType === "fruits" || !advisoryType) 
-        ? await getLiveDataContext(message) 
-        : "";
-      
-      // Build messages array for OpenAI
-      const currentDate = new Date().toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
-      
-      // Build system prompt based on advisory type
-      let systemMessage: string;
-      
-      switch (advisoryType) {
-        case "cattle":
-          systemMessage = `You are KisanDecks Cattle Care Advisory, an expert veterinary consultant for Indian farmers. Today's date is ${currentDate}.
-
-You provide helpful advice on:
-- Cattle health and disease management
-- Dairy farming and milk production
-- Feed and nutrition for livestock
-- Breeding and reproduction
-- Common cattle diseases and their treatment
-- Vaccination schedules
-- Goat, buffalo, and other livestock care
-
-CATTLE CARE GUIDANCE:
-Common cattle diseases in India and treatments:
-- Foot and Mouth Disease (FMD): Vaccinate every 6 months, isolate infected animals
-- Mastitis: Maintain hygiene, proper milking technique, antibiotic treatment
-- Bloat: Emergency - use trocar, vegetable oil, walking the animal
-- Tick fever (Babesiosis): Anti-parasitic treatment, tick control
-- Black Quarter: Vaccination, immediate antibiotic treatment
-- Hemorrhagic Septicemia: Pre-monsoon vaccination essential
-
-Milk production tips:
-- Feed balanced diet with green fodder, dry fodder, and concentrates
-- Provide clean water 3-4 times daily
-- Maintain proper shelter and ventilation
-- Regular deworming every 3 months
-- Proper milking hygiene
-
-Important: For serious conditions, always recommend consulting a local veterinarian.
-
-Always respond in a friendly, helpful manner. Keep answers practical and specific to Indian farming conditions. You can respond in Hindi if the user messages in Hindi.`;
-          break;
-          
-        case "soil":
-          systemMessage = `You are KisanDecks Soil Care Advisory, an expert soil scientist for Indian farmers. Today's date is ${currentDate}.
-
-You provide helpful advice on:
-- Soil testing and analysis
-- Soil pH management
-- Organic and chemical fertilizers
-- Soil health improvement
-- Composting and manure management
-- Soil erosion prevention
-
-SOIL CARE GUIDANCE:
-Ideal soil conditions for major crops:
-- Rice: pH 5.5-6.5, clayey soil with good water retention
-- Wheat: pH 6.0-7.5, loamy soil with good drainage
-- Cotton: pH 6.0-8.0, black cotton soil (vertisol)
-- Sugarcane: pH 6.0-7.5, deep loamy soil
-
-Organic soil improvement:
-- Green manure crops: Dhaincha, Sunhemp, Sesbania
-- Vermicompost: 2-3 tonnes per acre
-- FYM (Farmyard Manure): 8-10 tonnes per acre
-- Crop residue incorporation
-
-Soil testing:
-- Test soil every 2-3 years
-- Best time: After harvest, before sowing
-- Get tests from Krishi Vigyan Kendra or soil testing labs
-
-Always respond in a friendly, helpful manner. Keep answers practical for Indian conditions. You can respond in Hindi if the user messages in Hindi.`;
-          break;
-          
-        case "water":
-          systemMessage = `You are KisanDecks Water & Irrigation Advisory, an expert irrigation specialist for Indian farmers. Today's date is ${currentDate}.
-
-You provide helpful advice on:
-- Irrigation scheduling and methods
-- Drip and sprinkler irrigation
-- Water conservation techniques
-- Rainwater harvesting
-- Groundwater management
-- Flood and drought management
-
-IRRIGATION GUIDANCE:
-Irrigation methods and efficiency:
-- Flood irrigation: 30-40% efficiency
-- Furrow irrigation: 50-60% efficiency
-- Sprinkler: 70-80% efficiency
-- Drip irrigation: 90-95% efficiency
-
-Water requirements (approximate):
-- Rice: 1200-1500 mm per season
-- Wheat: 400-500 mm per season
-- Cotton: 700-900 mm per season
-- Vegetables: 400-600 mm per season
-
-Water saving tips:
-- Mulching reduces evaporation by 25-30%
-- Alternate wetting and drying (AWD) for rice
-- Schedule irrigation early morning or evening
-- Use tensiometer or soil moisture sensors
-- Rainwater harvesting: 1 mm rain = 10,000 liters per hectare
-
-Government schemes: PM Krishi Sinchayee Yojana provides subsidy for micro-irrigation.
-
-Always respond in a friendly, helpful manner. Keep answers practical for Indian conditions. You can respond in Hindi if the user messages in Hindi.`;
-          break;
-          
-        case "fruits":
-          systemMessage = `You are KisanDecks Fruits & Vegetables Advisory, an expert horticulturist for Indian farmers. Today's date is ${currentDate}.
-
-You provide helpful advice on:
-- Fruit tree cultivation and care
-- Vegetable farming techniques
-- Pest and disease management
-- Harvesting and post-harvest handling
-- Market timing and pricing
-- Organic fruit and vegetable growing
-
-FRUITS & VEGETABLES GUIDANCE:
-Popular fruits in India:
-- Mango: Plant June-July, harvest April-June
-- Banana: Year-round planting, 12-14 months to harvest
-- Guava: Plant July-August, fruits in 2-3 years
-- Papaya: Quick returns, fruits in 10-12 months
-- Citrus: Best planted in monsoon
-
-Vegetable seasons:
-- Kharif (Monsoon): Okra, brinjal, chilli, tomato
-- Rabi (Winter): Cauliflower, cabbage, peas, potato
-- Zaid (Summer): Cucumber, watermelon, muskmelon
-
-Organic pest control:
-- Neem oil spray for aphids and whiteflies
-- Pheromone traps for fruit flies
-- Trichoderma for soil-borne diseases
-- Companion planting: Marigold with vegetables
-
-${liveDataContext ? `\n--- LIVE DATA FROM OFFICIAL SOURCES ---${liveDataContext}\n--- END LIVE DATA ---` : ''}
-
-Always respond in a friendly, helpful manner. Keep answers practical for Indian conditions. You can respond in Hindi if the user messages in Hindi.`;
-          break;
-          
-        default: // crop or general
-          systemMessage = `You are KisanDecks Crop Doctor, an expert agricultural consultant for Indian farmers. Today's date is ${currentDate}.
-
-You provide helpful advice on:
-- Crop management and farming techniques
-- Soil health and fertility  
-- Pest and disease control
-- Irrigation and water management
-- Market prices and selling strategies
-
-MARKET PRICE GUIDANCE (December 2024 Reference Rates):
-Common crop prices in Indian mandis (₹ per quintal):
-- Wheat: ₹2,200 - ₹2,600 (MSP: ₹2,275)
-- Rice (Paddy): ₹2,100 - ₹2,400 (MSP: ₹2,300)
-- Onion: ₹1,500 - ₹4,000 (highly variable)
-- Potato: ₹800 - ₹1,800
-- Tomato: ₹1,000 - ₹3,500 (seasonal)
-- Soybean: ₹4,200 - ₹4,800
-- Cotton: ₹6,500 - ₹7,200
-- Sugarcane: ₹350 - ₹400 (FRP: ₹340)
-- Maize: ₹1,800 - ₹2,200
-- Mustard: ₹5,000 - ₹5,800
-
-When asked about prices:
-1. If LIVE MANDI PRICES data is provided below, use those exact prices first
-2. Otherwise, use the reference ranges above as estimates
-3. Always mention if prices are from live data or estimates
-4. Direct users to agmarknet.gov.in or enam.gov.in for more details
-5. Give practical selling tips
-
-${liveDataContext ? `\n--- LIVE DATA FROM OFFICIAL SOURCES ---${liveDataContext}\n--- END LIVE DATA ---` : ''}
-
-Always respond in a friendly, helpful manner. Keep answers concise. You can respond in Hindi if the user messages in Hindi.`;
-      }
-
-      const messages: { role: "system" | "user" | "assistant"; content: string }[] = [
-        { role: "system", content: systemMessage },
-      ];
-      
-      // Add recent history (last 10 messages for context)
-      const recentHistory = history.slice(-10);
-      for (const chat of recentHistory) {
-        messages.push({
-          role: chat.role as "user" | "assistant",
-          content: chat.content,
-        });
-      }
+      // System prompt plus recent history
+      const { messages, promptVersion } = await buildAdvisoryMessages(sessionId, message, advisoryType, {
+        language,
+        farmerId: req.session.farmerId,
+      });
       
-      // Call OpenAI with gpt-4.1 (latest model with best capabilities)
-      let aiResponse = "Sorry, I could not generate a response. Please try again.";
-      try {
-        console.log("Calling OpenAI with messages:", JSON.stringify(messages.slice(0, 2)));
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4.1", // Using gpt-4.1 - latest and most capable model
-          messages,
-          max_tokens: 1024,
-        });
-        console.log("OpenAI response received:", completion.choices[0]?.message?.content?.slice(0, 100));
-        aiResponse = completion.choices[0]?.message?.content || aiResponse;
-      } catch (aiError: any) {
-        console.error("OpenAI API error:", aiError.message, aiError.status, aiError.code);
-        throw aiError;
-      }
+      // Model, timeout, retries and fallback come from the "advisory" LLM feature config
+      const aiResponse = await generateLlmText("advisory", messages)
+        || "Sorry, I could not generate a response. Please try again.";
       
       // Save AI response
       const savedResponse = await storage.createAdvisoryChat({
@@ -1171,7 +2772,9 @@ Always respond in a friendly, helpful manner. Keep answers concise. You can resp
         content: aiResponse,
         category: category || null,
         imageUrl: null,
+        promptVersion,
       });
+      await storage.touchAdvisorySession(sessionId);
       
       res.json(savedResponse);
     } catch (error: any) {
@@ -1183,98 +2786,221 @@ Always respond in a friendly, helpful manner. Keep answers concise. You can resp
     }
   });
 
-  // Vision-based crop disease diagnosis
-  app.post("/api/advisory/vision", upload.single("image"), async (req, res) => {
+  // Same as POST /api/advisory, but streams the reply as Server-Sent Events:
+  // "token" events with each chunk, then "done" with the saved message (or "error")
+  app.post("/api/advisory/stream", async (req, res) => {
+    let validatedData;
     try {
-      const file = req.file;
-      if (!file) {
-        return res.status(400).json({ error: "No image uploaded" });
+      validatedData = advisoryQuerySchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: fromError(error).toString() });
+    }
+    const { sessionId, message, category, advisoryType, language } = validatedData;
+    try {
+      if (!await resolveAdvisorySession(req, sessionId, advisoryType, message)) {
+        return res.status(404).json({ error: "Conversation not found" });
       }
+    } catch (error) {
+      console.error("Advisory session error:", error);
+      return res.status(500).json({ error: "Failed to get AI response" });
+    }
 
-      const { sessionId, message, advisoryType } = req.body;
-      if (!sessionId) {
-        return res.status(400).json({ error: "Session ID is required" });
+    // Stop generating (and don't save a half answer) if the farmer closes the page
+    const abortController = new AbortController();
+    let clientGone = false;
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        clientGone = true;
+        abortController.abort();
       }
+    });
 
-      // Read image as base64
-      const imageBuffer = fs.readFileSync(file.path);
-      const base64Image = imageBuffer.toString("base64");
-      const mimeType = file.mimetype;
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no", // don't let nginx buffer the stream
+    });
+    res.flushHeaders();
+
+    // Comment lines keep proxies from closing an idle connection while the model thinks
+    const keepAlive = setInterval(() => {
+      if (!res.writableEnded) res.write(": ping\n\n");
+    }, 15000);
 
-      // Save user message with image
+    try {
       await storage.createAdvisoryChat({
+        sessionId,
+        role: "user",
+        content: message,
+        category: category || null,
+        imageUrl: null,
+      });
+      
+      const { messages, promptVersion } = await buildAdvisoryMessages(sessionId, message, advisoryType, {
+        language,
+        farmerId: req.session.farmerId,
+      });
+      let aiResponse = "";
+      for await (const token of streamLlmText("advisory", messages, { signal: abortController.signal })) {
+        aiResponse += token;
+        writeSseEvent(res, "token", { content: token });
+      }
+      if (clientGone) return;
+
+      const savedResponse = await storage.createAdvisoryChat({
+        sessionId,
+        role: "assistant",
+        content: aiResponse || "Sorry, I could not generate a response. Please try again.",
+        category: category || null,
+        imageUrl: null,
+        promptVersion,
+      });
+      await storage.touchAdvisorySession(sessionId);
+      writeSseEvent(res, "done", savedResponse);
+    } catch (error: any) {
+      if (clientGone) return;
+      console.error("Error in AI advisory stream:", error);
+      writeSseEvent(res, "error", { error: "Failed to get AI response" });
+    } finally {
+      clearInterval(keepAlive);
+      if (!res.writableEnded) res.end();
+    }
+  });
+
+  // Vision-based crop and animal diagnosis. Takes up to MAX_VISION_IMAGES photos ("images";
+  // "image" still works for older clients). A follow-up without photos reuses the session's earlier ones
+  app.post("/api/advisory/vision", advisoryImageUpload.fields([
+    { name: "images", maxCount: MAX_VISION_IMAGES },
+    { name: "image", maxCount: 1 },
+  ]), async (req, res) => {
+    const uploaded = (req.files as Record<string, Express.Multer.File[]> | undefined) || {};
+    const files = [...(uploaded.image || []), ...(uploaded.images || [])];
+    const discardFiles = () => Promise.all(files.map(f => fs.promises.unlink(f.path).catch(() => undefined)));
+    let userChatId: number | null = null;
+    try {
+      if (files.length > MAX_VISION_IMAGES) {
+        await discardFiles();
+        return res.status(400).json({ error: `Upload at most ${MAX_VISION_IMAGES} photos at a time` });
+      }
+
+      const parsed = visionAdvisorySchema.safeParse(req.body);
+      if (!parsed.success) {
+        await discardFiles();
+        return res.status(400).json({ error: fromError(parsed.error).toString() });
+      }
+      const { sessionId, message, advisoryType } = parsed.data;
+      if (!await resolveAdvisorySession(req, sessionId, advisoryType, message)) {
+        await discardFiles();
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      const history = await storage.getAdvisoryChatsBySession(sessionId);
+      const earlierImageUrls = history
+        .filter(chat => chat.role === "user")
+        .flatMap(chat => parseChatImageUrls(chat))
+        .reverse(); // most recent first
+      if (files.length === 0 && earlierImageUrls.length === 0) {
+        return res.status(400).json({ error: "No image uploaded" });
+      }
+
+      const imageUrls = files.map(file => `/api/advisory/${sessionId}/images/${file.filename}`);
+
+      // Save user message with its photos
+      const userChat = await storage.createAdvisoryChat({
         sessionId,
         role: "user",
         content: message || (advisoryType === "cattle" ? "Please diagnose this animal's condition" : "Please diagnose this crop disease"),
         category: null,
-        imageUrl: `/uploads/${file.filename}`,
+        imageUrl: imageUrls[0] ?? null,
+        imageUrls: imageUrls.length > 0 ? JSON.stringify(imageUrls) : null,
       });
+      userChatId = userChat.id;
+
+      // New photos first, then the most recent earlier ones for context
+      const contextImageUrls = earlierImageUrls.slice(0, Math.max(0, MAX_VISION_CONTEXT_IMAGES - imageUrls.length));
+      const newImages = await Promise.all(imageUrls.map(readAdvisoryImage));
+      const earlierImages = (await Promise.all(contextImageUrls.map(readAdvisoryImage))).filter((url): url is string => !!url);
 
       // Build vision prompt based on advisory type
-      const systemPrompt = advisoryType === "cattle" 
-        ? `You are an expert veterinary consultant for Indian farmers. Analyze the image of the animal provided and:
-1. Identify any visible health issues, diseases, or abnormalities
-2. Provide a diagnosis with confidence level
-3. Suggest immediate treatment options
-4. Recommend preventive measures
-5. Advise when to consult a veterinarian in person
-
-Focus on common cattle/livestock diseases in Indian farming conditions. Be specific and practical.`
-        : `You are an expert agricultural consultant specializing in crop disease diagnosis for Indian farmers. Analyze the image of the crop/plant provided and:
-1. Identify the crop/plant if possible
-2. Diagnose any visible diseases, pest damage, or nutrient deficiencies
-3. Provide a confidence level for your diagnosis
-4. Suggest immediate treatment options (organic and chemical)
-5. Recommend preventive measures for the future
-
-Focus on common crop diseases in Indian farming conditions. Be specific and practical.`;
-
-      // Call OpenAI Vision API
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4.1", // Using latest model with vision capabilities
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: message || "Please analyze this image and provide diagnosis" },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 1500,
+      const farmerContext = req.session.farmerId ? await getFarmerAdvisoryContext(req.session.farmerId) : null;
+      const language = (advisoryLanguages as readonly string[]).includes(req.body.language)
+        ? req.body.language as AdvisoryLanguage
+        : farmerLanguage(farmerContext?.farmer) ?? "english";
+      const systemPrompt = await renderSystemPrompt(advisoryType === "cattle" ? "vision-cattle" : "vision-crop", language, {
+        farmerProfile: farmerContext ? formatFarmerProfile(farmerContext) : "",
       });
 
-      const aiResponse = completion.choices[0]?.message?.content || "Sorry, I could not analyze the image. Please try again.";
+      const content: LlmContentPart[] = [
+        { type: "text", text: message || "Please analyze these images and provide diagnosis" },
+        ...newImages.filter((url): url is string => !!url).map(url => ({ type: "image" as const, url })),
+      ];
+      if (earlierImages.length > 0) {
+        content.push({ type: "text", text: "Photos shared earlier in this conversation:" });
+        content.push(...earlierImages.map(url => ({ type: "image" as const, url })));
+      }
+
+      const { answer, diagnosis } = await runVisionDiagnosis([
+        { role: "system", content: `${systemPrompt.content}\n\n${DIAGNOSIS_FORMAT_INSTRUCTIONS}` },
+        ...recentHistoryMessages(history),
+        { role: "user", content },
+      ]);
 
-      // Save AI response
+      // Save AI response with the structured diagnosis alongside the prose
       const savedResponse = await storage.createAdvisoryChat({
         sessionId,
         role: "assistant",
-        content: aiResponse,
+        content: answer,
         category: null,
         imageUrl: null,
+        diagnosis: diagnosis ? JSON.stringify(diagnosis) : null,
+        promptVersion: systemPrompt.promptVersion,
       });
+      await storage.touchAdvisorySession(sessionId);
+      if (diagnosis) {
+        await recordDiagnosisReport(savedResponse, diagnosis, farmerContext?.farmer)
+          .catch(err => console.error("Diagnosis report error:", err));
+      }
 
-      // Clean up uploaded file after processing (optional - keep for history)
-      // fs.unlinkSync(file.path);
-
-      res.json(savedResponse);
+      res.json({ ...savedResponse, diagnosis, imageUrls });
     } catch (error: any) {
+      // Nothing is kept from a failed diagnosis, so the farmer can simply send the photos again
+      await discardFiles();
+      if (userChatId != null) await storage.deleteAdvisoryChat(userChatId).catch(() => undefined);
       console.error("Error in vision advisory:", error);
       res.status(500).json({ error: "Failed to analyze image" });
     }
   });
 
+  // Photos from an advisory conversation (owner only)
+  app.get("/api/advisory/:sessionId/images/:filename", async (req, res) => {
+    try {
+      const session = await storage.getAdvisorySession(req.params.sessionId);
+      if (!session || !ownsAdvisorySession(req, session)) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+      const filename = path.basename(req.params.filename);
+      const url = `/api/advisory/${session.sessionId}/images/${filename}`;
+      const chats = await storage.getAdvisoryChatsBySession(session.sessionId);
+      const filePath = path.join(advisoryUploadDir, filename);
+      if (!chats.some(chat => parseChatImageUrls(chat).includes(url)) || !fs.existsSync(filePath)) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch image" });
+    }
+  });
+
   // Serve uploaded images
   app.use("/uploads", (req, res, next) => {
-    const filePath = path.join(uploadDir, req.path);
-    if (fs.existsSync(filePath)) {
+    // Check the resolved path, so ./ and ../ segments can't reach private or outside files
+    const filePath = path.resolve(uploadDir, "." + req.path);
+    const [topDir] = path.relative(uploadDir, filePath).split(path.sep);
+    if (!filePath.startsWith(uploadDir + path.sep) || privateUploadSubdirs.includes(topDir)) {
+      return res.status(404).json({ error: "Image not found" });
+    }
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
       res.sendFile(filePath);
     } else {
       res.status(404).json({ error: "Image not found" });
@@ -1382,24 +3108,6 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
       const current = weatherData.current;
       const daily = weatherData.daily;
 
-      // Map weather codes to conditions
-      const getWeatherCondition = (code: number): { main: string; description: string } => {
-        if (code === 0) return { main: "Clear", description: "clear sky" };
-        if (code === 1) return { main: "Clear", description: "mainly clear" };
-        if (code === 2) return { main: "Clouds", description: "partly cloudy" };
-        if (code === 3) return { main: "Clouds", description: "overcast" };
-        if (code >= 45 && code <= 48) return { main: "Fog", description: "foggy" };
-        if (code >= 51 && code <= 55) return { main: "Drizzle", description: "drizzle" };
-        if (code >= 56 && code <= 57) return { main: "Drizzle", description: "freezing drizzle" };
-        if (code >= 61 && code <= 65) return { main: "Rain", description: "rain" };
-        if (code >= 66 && code <= 67) return { main: "Rain", description: "freezing rain" };
-        if (code >= 71 && code <= 77) return { main: "Snow", description: "snow" };
-        if (code >= 80 && code <= 82) return { main: "Rain", description: "rain showers" };
-        if (code >= 85 && code <= 86) return { main: "Snow", description: "snow showers" };
-        if (code >= 95 && code <= 99) return { main: "Thunderstorm", description: "thunderstorm" };
-        return { main: "Clear", description: "clear" };
-      };
-
       const condition = getWeatherCondition(current.weather_code);
 
       // Format sunrise/sunset times
@@ -1567,17 +3275,18 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
 
   // ========== ACCOUNT BOOK API ==========
   
+  // Rows created before account books were tied to farmer logins
   const DEFAULT_FARMER_ID = "default";
 
   // Expenses
-  app.post("/api/account/expense", async (req, res) => {
+  app.post("/api/account/expense", requireFarmer, async (req, res) => {
     try {
       const { category, amount, crop, notes, photoUrl, date } = req.body;
       if (!category || !amount) {
         return res.status(400).json({ error: "Category and amount are required" });
       }
       const expense = await storage.createExpense({
-        farmerId: DEFAULT_FARMER_ID,
+        farmerId: getFarmerKey(req),
         category,
         amount: Number(amount),
         crop: crop || null,
@@ -1592,11 +3301,11 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
-  app.get("/api/account/expenses", async (req, res) => {
+  app.get("/api/account/expenses", requireFarmer, async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       const expenses = await storage.getExpensesByFarmer(
-        DEFAULT_FARMER_ID,
+        getFarmerKey(req),
         startDate ? new Date(String(startDate)) : undefined,
         endDate ? new Date(String(endDate)) : undefined
       );
@@ -1607,9 +3316,15 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
-  app.delete("/api/account/expense/:id", async (req, res) => {
+  app.delete("/api/account/expense/:id", requireFarmer, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getExpenseById(id);
+      if (!existing) return res.status(404).json({ error: "Expense not found" });
+      if (existing.farmerId !== getFarmerKey(req)) {
+        return res.status(403).json({ error: "Not your expense" });
+      }
+      
       await storage.deleteExpense(id);
       res.json({ success: true });
     } catch (error: any) {
@@ -1618,14 +3333,14 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Income
-  app.post("/api/account/income", async (req, res) => {
+  app.post("/api/account/income", requireFarmer, async (req, res) => {
     try {
       const { category, amount, crop, notes, quantity, unit, date } = req.body;
       if (!category || !amount) {
         return res.status(400).json({ error: "Category and amount are required" });
       }
       const income = await storage.createIncome({
-        farmerId: DEFAULT_FARMER_ID,
+        farmerId: getFarmerKey(req),
         category,
         amount: Number(amount),
         crop: crop || null,
@@ -1641,11 +3356,11 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
-  app.get("/api/account/incomes", async (req, res) => {
+  app.get("/api/account/incomes", requireFarmer, async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       const incomes = await storage.getIncomesByFarmer(
-        DEFAULT_FARMER_ID,
+        getFarmerKey(req),
         startDate ? new Date(String(startDate)) : undefined,
         endDate ? new Date(String(endDate)) : undefined
       );
@@ -1656,9 +3371,15 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
-  app.delete("/api/account/income/:id", async (req, res) => {
+  app.delete("/api/account/income/:id", requireFarmer, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getIncomeById(id);
+      if (!existing) return res.status(404).json({ error: "Income not found" });
+      if (existing.farmerId !== getFarmerKey(req)) {
+        return res.status(403).json({ error: "Not your income" });
+      }
+      
       await storage.deleteIncome(id);
       res.json({ success: true });
     } catch (error: any) {
@@ -1667,14 +3388,14 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Crop Tracking
-  app.post("/api/account/crop", async (req, res) => {
+  app.post("/api/account/crop", requireFarmer, async (req, res) => {
     try {
       const { cropName, landArea, areaUnit, expectedYield, yieldUnit, sowingDate, status } = req.body;
       if (!cropName) {
         return res.status(400).json({ error: "Crop name is required" });
       }
       const crop = await storage.createCropTracking({
-        farmerId: DEFAULT_FARMER_ID,
+        farmerId: getFarmerKey(req),
         cropName,
         landArea: landArea ? Number(landArea) : null,
         areaUnit: areaUnit || "acre",
@@ -1691,9 +3412,9 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
-  app.get("/api/account/crops", async (req, res) => {
+  app.get("/api/account/crops", requireFarmer, async (req, res) => {
     try {
-      const crops = await storage.getCropsByFarmer(DEFAULT_FARMER_ID);
+      const crops = await storage.getCropsByFarmer(getFarmerKey(req));
       res.json(crops);
     } catch (error: any) {
       console.error("Get crops error:", error);
@@ -1701,9 +3422,15 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
-  app.delete("/api/account/crop/:id", async (req, res) => {
+  app.delete("/api/account/crop/:id", requireFarmer, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await storage.getCropById(id);
+      if (!existing) return res.status(404).json({ error: "Crop not found" });
+      if (existing.farmerId !== getFarmerKey(req)) {
+        return res.status(403).json({ error: "Not your crop" });
+      }
+      
       await storage.deleteCrop(id);
       res.json({ success: true });
     } catch (error: any) {
@@ -1712,7 +3439,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Summary and Reports
-  app.get("/api/account/summary", async (req, res) => {
+  app.get("/api/account/summary", requireFarmer, async (req, res) => {
     try {
       const { period } = req.query;
       let startDate: Date | undefined;
@@ -1726,12 +3453,13 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
         startDate = new Date(now.getFullYear(), 0, 1);
       }
 
+      const farmerKey = getFarmerKey(req);
       const [expenses, incomes, expenseByCategory, incomeByCategory, crops] = await Promise.all([
-        storage.getExpensesByFarmer(DEFAULT_FARMER_ID, startDate),
-        storage.getIncomesByFarmer(DEFAULT_FARMER_ID, startDate),
-        storage.getExpenseSummaryByCategory(DEFAULT_FARMER_ID, startDate),
-        storage.getIncomeSummaryByCategory(DEFAULT_FARMER_ID, startDate),
-        storage.getCropsByFarmer(DEFAULT_FARMER_ID),
+        storage.getExpensesByFarmer(farmerKey, startDate),
+        storage.getIncomesByFarmer(farmerKey, startDate),
+        storage.getExpenseSummaryByCategory(farmerKey, startDate),
+        storage.getIncomeSummaryByCategory(farmerKey, startDate),
+        storage.getCropsByFarmer(farmerKey),
       ]);
 
       const totalExpense = expenses.reduce((sum, e) => sum + e.amount, 0);
@@ -1774,6 +3502,26 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
+  // Move legacy "default" account book rows to a real farmer (admin only, one-time)
+  app.post("/api/admin/account/reassign-default", requireAdminPermission("accounts:manage"), async (req, res) => {
+    try {
+      const farmerId = Number(req.body.farmerId);
+      if (!Number.isInteger(farmerId) || farmerId <= 0) {
+        return res.status(400).json({ error: "Valid farmer ID is required" });
+      }
+      
+      const farmer = await storage.getFarmerById(farmerId);
+      if (!farmer) return res.status(404).json({ error: "Farmer not found" });
+      
+      const moved = await storage.reassignAccountBook(DEFAULT_FARMER_ID, String(farmer.id));
+      await recordAdminAction(req, "account.reassign-default", "farmer", farmer.id, moved);
+      res.json({ success: true, farmerId: farmer.id, moved });
+    } catch (error: any) {
+      console.error("Account book reassign error:", error);
+      res.status(500).json({ error: "Failed to reassign account book" });
+    }
+  });
+
   // ============ SMART FARMER CALCULATOR ROUTES ============
 
   // Calculator: Crop Cost
@@ -2259,7 +4007,8 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
 
   // Configure multer for media uploads (videos and audio)
   const mediaUploadDir = path.join(process.cwd(), "uploads");
-  ["videos", "audio", "thumbnails", "live-recordings"].forEach(dir => {
+  const mediaSubdirs = ["videos", "audio", "thumbnails", "live-recordings"];
+  mediaSubdirs.forEach(dir => {
     const fullPath = path.join(mediaUploadDir, dir);
     if (!fs.existsSync(fullPath)) {
       fs.mkdirSync(fullPath, { recursive: true });
@@ -2303,6 +4052,34 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     },
   });
 
+  // Absolute path of a stored media path like /uploads/videos/xxx.mp4; null when it points outside the media folders
+  const resolveMediaPath = (storedPath: string | null | undefined): string | null => {
+    if (!storedPath) return null;
+    const fullPath = path.resolve(process.cwd(), storedPath.replace(/^\//, ""));
+    return mediaSubdirs.some(dir => fullPath.startsWith(path.join(mediaUploadDir, dir) + path.sep)) ? fullPath : null;
+  };
+
+  const mediaPathSchema = z.string().refine(
+    storedPath => resolveMediaPath(storedPath) !== null,
+    `Must be a file under ${mediaSubdirs.map(dir => `/uploads/${dir}`).join(", ")}`
+  );
+
+  // Remove a stored media file; only paths inside the media folders are touched
+  const removeMediaFile = async (storedPath: string | null | undefined) => {
+    const fullPath = resolveMediaPath(storedPath);
+    if (!fullPath) return;
+    try {
+      await fs.promises.unlink(fullPath);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") console.error("Media cleanup error:", error);
+    }
+  };
+
+  const removeUploadedFiles = async (files: { [fieldname: string]: Express.Multer.File[] } | undefined) => {
+    if (!files) return;
+    await Promise.all(Object.values(files).flat().map(file => removeMediaFile(file.path)));
+  };
+
   // ===== MEDIA STREAMING ROUTES =====
 
   // Stream video file with range request support (public access)
@@ -2311,12 +4088,12 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
       const id = parseInt(req.params.id);
       const content = await storage.getLearningContentById(id);
       
-      if (!content || content.type !== "video") {
+      if (!content || content.type !== "video" || !content.isActive) {
         return res.status(404).json({ error: "Video not found" });
       }
       
-      const filePath = path.join(process.cwd(), content.filePath);
-      if (!fs.existsSync(filePath)) {
+      const filePath = resolveMediaPath(content.filePath);
+      if (!filePath || !fs.existsSync(filePath)) {
         return res.status(404).json({ error: "Video file not found" });
       }
       
@@ -2360,12 +4137,12 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
       const id = parseInt(req.params.id);
       const content = await storage.getLearningContentById(id);
       
-      if (!content || content.type !== "audio") {
+      if (!content || content.type !== "audio" || !content.isActive) {
         return res.status(404).json({ error: "Audio not found" });
       }
       
-      const filePath = path.join(process.cwd(), content.filePath);
-      if (!fs.existsSync(filePath)) {
+      const filePath = resolveMediaPath(content.filePath);
+      if (!filePath || !fs.existsSync(filePath)) {
         return res.status(404).json({ error: "Audio file not found" });
       }
       
@@ -2406,7 +4183,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
       const id = parseInt(req.params.id);
       const content = await storage.getLearningContentById(id);
       
-      if (!content) {
+      if (!content || !content.isActive) {
         return res.status(404).json({ error: "Content not found" });
       }
       
@@ -2414,8 +4191,8 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
         return res.status(403).json({ error: "Content is not downloadable" });
       }
       
-      const filePath = path.join(process.cwd(), content.filePath);
-      if (!fs.existsSync(filePath)) {
+      const filePath = resolveMediaPath(content.filePath);
+      if (!filePath || !fs.existsSync(filePath)) {
         return res.status(404).json({ error: "File not found" });
       }
       
@@ -2436,12 +4213,12 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
       const id = parseInt(req.params.id);
       const content = await storage.getLearningContentById(id);
       
-      if (!content || !content.thumbnailPath) {
+      if (!content || !content.isActive || !content.thumbnailPath) {
         return res.status(404).json({ error: "Thumbnail not found" });
       }
       
-      const filePath = path.join(process.cwd(), content.thumbnailPath);
-      if (!fs.existsSync(filePath)) {
+      const filePath = resolveMediaPath(content.thumbnailPath);
+      if (!filePath || !fs.existsSync(filePath)) {
         return res.status(404).json({ error: "Thumbnail file not found" });
       }
       
@@ -2455,7 +4232,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   // ===== ADMIN MEDIA UPLOAD ROUTES =====
 
   // Upload video (admin only)
-  app.post("/api/admin/learning/upload/video", requireAdmin, mediaUpload.fields([
+  app.post("/api/admin/learning/upload/video", requireAdminPermission("content:manage"), mediaUpload.fields([
     { name: "video", maxCount: 1 },
     { name: "thumbnail", maxCount: 1 }
   ]), async (req, res) => {
@@ -2488,16 +4265,18 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
         isDownloadable: true,
         uploadedByAdminId: req.session.adminId,
       });
+      await recordAdminAction(req, "media.upload", "learning-content", content.id, { type: content.type, title: content.title });
       
       res.json({ success: true, content });
     } catch (error: any) {
       console.error("Video upload error:", error);
+      await removeUploadedFiles(req.files as { [fieldname: string]: Express.Multer.File[] } | undefined);
       res.status(500).json({ error: "Failed to upload video" });
     }
   });
 
   // Upload audio (admin only)
-  app.post("/api/admin/learning/upload/audio", requireAdmin, mediaUpload.fields([
+  app.post("/api/admin/learning/upload/audio", requireAdminPermission("content:manage"), mediaUpload.fields([
     { name: "audio", maxCount: 1 },
     { name: "thumbnail", maxCount: 1 }
   ]), async (req, res) => {
@@ -2530,14 +4309,208 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
         isDownloadable: true,
         uploadedByAdminId: req.session.adminId,
       });
+      await recordAdminAction(req, "media.upload", "learning-content", content.id, { type: content.type, title: content.title });
       
       res.json({ success: true, content });
     } catch (error: any) {
       console.error("Audio upload error:", error);
+      await removeUploadedFiles(req.files as { [fieldname: string]: Express.Multer.File[] } | undefined);
       res.status(500).json({ error: "Failed to upload audio" });
     }
   });
 
+  // ===== ADMIN CATALOG MANAGEMENT =====
+
+  // JSON bodies carry dates as strings; the workshop schema expects Date objects
+  const withWorkshopDates = (body: any) => ({
+    ...body,
+    ...(body?.scheduledAt !== undefined && { scheduledAt: new Date(body.scheduledAt) }),
+  });
+
+  // Media paths must stay inside the media folders; anything else would be streamed to the public
+  const learningContentSchema = insertLearningContentSchema.extend({
+    filePath: mediaPathSchema,
+    thumbnailPath: mediaPathSchema.nullable().optional(),
+  });
+  const updateLearningContentSchema = learningContentSchema.partial().omit({ isActive: true });
+  const updateWorkshopSchema = insertWorkshopSchema.partial().omit({ isActive: true }).extend({
+    status: z.enum(["upcoming", "live", "completed", "cancelled"]).optional(),
+  });
+
+  // All learning content including soft-deleted items (admin)
+  app.get("/api/admin/learning/content", requireAdmin, async (req, res) => {
+    try {
+      const content = await storage.getAllLearningContent();
+      res.json(content);
+    } catch (error: any) {
+      console.error("Admin content list error:", error);
+      res.status(500).json({ error: "Failed to fetch content" });
+    }
+  });
+
+  // Update learning content (admin)
+  app.patch("/api/admin/learning/content/:id", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getLearningContentById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Content not found" });
+      }
+      
+      const parsed = updateLearningContentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid content data", details: parsed.error.format() });
+      }
+      
+      const content = await storage.updateLearningContent(id, parsed.data);
+      
+      // Replaced media files are no longer referenced
+      if (parsed.data.filePath && parsed.data.filePath !== existing.filePath) {
+        await removeMediaFile(existing.filePath);
+      }
+      if (parsed.data.thumbnailPath !== undefined && parsed.data.thumbnailPath !== existing.thumbnailPath) {
+        await removeMediaFile(existing.thumbnailPath);
+      }
+      
+      await recordAdminAction(req, "learning-content.update", "learning-content", id, { fields: Object.keys(parsed.data) });
+      res.json(content);
+    } catch (error: any) {
+      console.error("Content update error:", error);
+      res.status(500).json({ error: "Failed to update content" });
+    }
+  });
+
+  // Soft-delete learning content (admin)
+  app.delete("/api/admin/learning/content/:id", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const content = await storage.updateLearningContent(id, { isActive: false });
+      if (!content) {
+        return res.status(404).json({ error: "Content not found" });
+      }
+      await recordAdminAction(req, "learning-content.delete", "learning-content", id);
+      res.json({ success: true, content });
+    } catch (error: any) {
+      console.error("Content delete error:", error);
+      res.status(500).json({ error: "Failed to delete content" });
+    }
+  });
+
+  // Restore soft-deleted learning content (admin)
+  app.post("/api/admin/learning/content/:id/restore", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const content = await storage.updateLearningContent(id, { isActive: true });
+      if (!content) {
+        return res.status(404).json({ error: "Content not found" });
+      }
+      await recordAdminAction(req, "learning-content.restore", "learning-content", id);
+      res.json({ success: true, content });
+    } catch (error: any) {
+      console.error("Content restore error:", error);
+      res.status(500).json({ error: "Failed to restore content" });
+    }
+  });
+
+  // Permanently remove soft-deleted content and its media files (admin)
+  app.delete("/api/admin/learning/content/:id/purge", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const content = await storage.getLearningContentById(id);
+      if (!content) {
+        return res.status(404).json({ error: "Content not found" });
+      }
+      if (content.isActive) {
+        return res.status(400).json({ error: "Delete the content before purging it" });
+      }
+      
+      await storage.deleteLearningContent(id);
+      await removeMediaFile(content.filePath);
+      await removeMediaFile(content.thumbnailPath);
+      
+      await recordAdminAction(req, "learning-content.purge", "learning-content", id, { title: content.title });
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Content purge error:", error);
+      res.status(500).json({ error: "Failed to purge content" });
+    }
+  });
+
+  // All workshops including soft-deleted ones (admin)
+  app.get("/api/admin/learning/workshops", requireAdmin, async (req, res) => {
+    try {
+      const workshopsList = await storage.getAllWorkshops();
+      res.json(workshopsList);
+    } catch (error: any) {
+      console.error("Admin workshops list error:", error);
+      res.status(500).json({ error: "Failed to fetch workshops" });
+    }
+  });
+
+  // Update workshop (admin)
+  app.patch("/api/admin/learning/workshops/:id", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWorkshopById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Workshop not found" });
+      }
+      
+      const parsed = updateWorkshopSchema.safeParse(withWorkshopDates(req.body));
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid workshop data", details: parsed.error.format() });
+      }
+      
+      const workshop = await storage.updateWorkshop(id, parsed.data);
+      
+      // Locally hosted thumbnails/recordings that were replaced are removed
+      if (parsed.data.thumbnailUrl !== undefined && parsed.data.thumbnailUrl !== existing.thumbnailUrl) {
+        await removeMediaFile(existing.thumbnailUrl?.startsWith("/uploads/") ? existing.thumbnailUrl : null);
+      }
+      if (parsed.data.recordingUrl !== undefined && parsed.data.recordingUrl !== existing.recordingUrl) {
+        await removeMediaFile(existing.recordingUrl?.startsWith("/uploads/") ? existing.recordingUrl : null);
+      }
+      
+      await recordAdminAction(req, "workshop.update", "workshop", id, { fields: Object.keys(parsed.data) });
+      res.json(workshop);
+    } catch (error: any) {
+      console.error("Workshop update error:", error);
+      res.status(500).json({ error: "Failed to update workshop" });
+    }
+  });
+
+  // Soft-delete workshop (admin)
+  app.delete("/api/admin/learning/workshops/:id", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const workshop = await storage.updateWorkshop(id, { isActive: false });
+      if (!workshop) {
+        return res.status(404).json({ error: "Workshop not found" });
+      }
+      await recordAdminAction(req, "workshop.delete", "workshop", id);
+      res.json({ success: true, workshop });
+    } catch (error: any) {
+      console.error("Workshop delete error:", error);
+      res.status(500).json({ error: "Failed to delete workshop" });
+    }
+  });
+
+  // Restore soft-deleted workshop (admin)
+  app.post("/api/admin/learning/workshops/:id/restore", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const workshop = await storage.updateWorkshop(id, { isActive: true });
+      if (!workshop) {
+        return res.status(404).json({ error: "Workshop not found" });
+      }
+      await recordAdminAction(req, "workshop.restore", "workshop", id);
+      res.json({ success: true, workshop });
+    } catch (error: any) {
+      console.error("Workshop restore error:", error);
+      res.status(500).json({ error: "Failed to restore workshop" });
+    }
+  });
+
   // Generate share link (public access)
   app.post("/api/learning/share", async (req, res) => {
     try {
@@ -2620,7 +4593,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     try {
       const id = parseInt(req.params.id);
       const content = await storage.getLearningContentById(id);
-      if (!content) {
+      if (!content || !content.isActive) {
         return res.status(404).json({ error: "Content not found" });
       }
       // Increment view count
@@ -2633,14 +4606,14 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Create learning content (admin)
-  app.post("/api/learning/content", async (req, res) => {
+  app.post("/api/learning/content", requireAdminPermission("content:manage"), async (req, res) => {
     try {
-      const { insertLearningContentSchema } = await import("@shared/schema");
-      const parsed = insertLearningContentSchema.safeParse(req.body);
+      const parsed = learningContentSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: "Invalid content data", details: parsed.error.format() });
       }
-      const content = await storage.createLearningContent(parsed.data);
+      const content = await storage.createLearningContent({ ...parsed.data, uploadedByAdminId: req.session.adminId });
+      await recordAdminAction(req, "learning-content.create", "learning-content", content.id, { title: content.title });
       res.json(content);
     } catch (error: any) {
       console.error("Content creation error:", error);
@@ -2660,14 +4633,14 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Create workshop (admin)
-  app.post("/api/learning/workshops", async (req, res) => {
+  app.post("/api/learning/workshops", requireAdminPermission("content:manage"), async (req, res) => {
     try {
-      const { insertWorkshopSchema } = await import("@shared/schema");
-      const parsed = insertWorkshopSchema.safeParse(req.body);
+      const parsed = insertWorkshopSchema.safeParse(withWorkshopDates(req.body));
       if (!parsed.success) {
         return res.status(400).json({ error: "Invalid workshop data", details: parsed.error.format() });
       }
       const workshop = await storage.createWorkshop(parsed.data);
+      await recordAdminAction(req, "workshop.create", "workshop", workshop.id, { title: workshop.title });
       res.json(workshop);
     } catch (error: any) {
       console.error("Workshop creation error:", error);
@@ -2675,36 +4648,95 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
+  // Send SMS reminders to everyone registered for a workshop (admin)
+  app.post("/api/admin/learning/workshops/:id/remind", requireAdminPermission("content:manage"), async (req, res) => {
+    try {
+      const workshopId = parseInt(req.params.id);
+      const workshop = await storage.getWorkshopById(workshopId);
+      if (!workshop || !workshop.isActive) {
+        return res.status(404).json({ error: "Workshop not found" });
+      }
+      if (workshop.status === "cancelled") {
+        return res.status(400).json({ error: "Workshop has been cancelled" });
+      }
+      
+      const registrations = await storage.getWorkshopRegistrations(workshopId);
+      const startsAt = new Date(workshop.scheduledAt).toLocaleString("en-IN", {
+        timeZone: "Asia/Kolkata",
+        day: "numeric",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+      
+      const results = [];
+      for (const registration of registrations) {
+        // Only remind the account that registered, at the number it owns;
+        // legacy "default" rows have no farmer to reach
+        const farmerId = Number(registration.farmerId);
+        if (!Number.isInteger(farmerId) || farmerId <= 0) continue;
+        const farmer = await storage.getFarmerById(farmerId);
+        if (!farmer) continue;
+        const message = await sendSms(farmer.phone, "workshop-reminder", {
+          title: farmer.language === "english" ? workshop.title : (workshop.titleHindi || workshop.title),
+          startsAt,
+          joinLink: workshop.joinLink,
+        }, farmer.language);
+        results.push({ registrationId: registration.id, status: message.status });
+      }
+      
+      await recordAdminAction(req, "workshop.remind", "workshop", workshop.id, { recipients: results.length });
+      
+      res.json({
+        success: true,
+        sent: results.filter(r => r.status !== "failed").length,
+        failed: results.filter(r => r.status === "failed").length,
+        results,
+      });
+    } catch (error: any) {
+      console.error("Workshop reminder error:", error);
+      res.status(500).json({ error: "Failed to send reminders" });
+    }
+  });
+
   // Register for workshop
-  app.post("/api/learning/workshops/:id/register", async (req, res) => {
+  app.post("/api/learning/workshops/:id/register", requireFarmer, async (req, res) => {
     try {
       const workshopId = parseInt(req.params.id);
       if (isNaN(workshopId)) {
         return res.status(400).json({ error: "Invalid workshop ID" });
       }
       
+      const farmer = await storage.getFarmerById(req.session.farmerId!);
+      if (!farmer) {
+        return res.status(401).json({ error: "Farmer not found" });
+      }
+      
+      // Prefill from the farmer profile, allowing the form to override
       const { farmerName, farmerPhone } = req.body;
-      if (!farmerName || typeof farmerName !== 'string') {
+      const name = (typeof farmerName === 'string' && farmerName.trim()) || farmer.name;
+      if (!name) {
         return res.status(400).json({ error: "Farmer name is required" });
       }
+      const phone = (typeof farmerPhone === 'string' && farmerPhone.trim()) || farmer.phone;
       
       // Check if workshop exists
       const workshop = await storage.getWorkshopById(workshopId);
-      if (!workshop) {
+      if (!workshop || !workshop.isActive) {
         return res.status(404).json({ error: "Workshop not found" });
       }
       
       // Check if already registered
-      const isRegistered = await storage.isUserRegistered(workshopId, DEFAULT_FARMER_ID);
+      const isRegistered = await storage.isUserRegistered(workshopId, getFarmerKey(req));
       if (isRegistered) {
         return res.status(400).json({ error: "Already registered for this workshop" });
       }
       
       const registration = await storage.registerForWorkshop({
         workshopId,
-        farmerId: DEFAULT_FARMER_ID,
-        farmerName: farmerName.trim(),
-        farmerPhone: farmerPhone?.trim() || undefined,
+        farmerId: getFarmerKey(req),
+        farmerName: name,
+        farmerPhone: phone,
       });
       res.json({ success: true, registration });
     } catch (error: any) {
@@ -2714,7 +4746,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Bookmark content
-  app.post("/api/learning/bookmark", async (req, res) => {
+  app.post("/api/learning/bookmark", requireFarmer, async (req, res) => {
     try {
       const { contentId, contentType } = req.body;
       if (!contentId || typeof contentId !== 'number') {
@@ -2724,7 +4756,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
         return res.status(400).json({ error: "Content type must be 'video' or 'audio'" });
       }
       
-      const progress = await storage.bookmarkContent(DEFAULT_FARMER_ID, contentId, contentType);
+      const progress = await storage.bookmarkContent(getFarmerKey(req), contentId, contentType);
       res.json({ success: true, isBookmarked: progress.isBookmarked });
     } catch (error: any) {
       console.error("Bookmark error:", error);
@@ -2733,11 +4765,12 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Get my learning progress
-  app.get("/api/learning/my-learning", async (req, res) => {
+  app.get("/api/learning/my-learning", requireFarmer, async (req, res) => {
     try {
+      const farmerKey = getFarmerKey(req);
       const [progress, bookmarked] = await Promise.all([
-        storage.getLearningProgress(DEFAULT_FARMER_ID),
-        storage.getBookmarkedContent(DEFAULT_FARMER_ID),
+        storage.getLearningProgress(farmerKey),
+        storage.getBookmarkedContent(farmerKey),
       ]);
       res.json({ progress, bookmarked });
     } catch (error: any) {
@@ -2747,7 +4780,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // Update learning progress
-  app.post("/api/learning/progress", async (req, res) => {
+  app.post("/api/learning/progress", requireFarmer, async (req, res) => {
     try {
       const { contentId, contentType, watchedSeconds, totalSeconds, completedPercent, isCompleted } = req.body;
       
@@ -2759,7 +4792,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
       }
       
       const progress = await storage.upsertLearningProgress({
-        farmerId: DEFAULT_FARMER_ID,
+        farmerId: getFarmerKey(req),
         contentId,
         contentType,
         watchedSeconds: typeof watchedSeconds === 'number' ? watchedSeconds : 0,
@@ -2774,8 +4807,8 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
     }
   });
 
-  // Seed sample learning content
-  app.post("/api/learning/seed", async (req, res) => {
+  // Seed sample learning content (admin)
+  app.post("/api/learning/seed", requireAdminPermission("content:manage"), async (req, res) => {
     try {
       // Sample videos
       const sampleVideos = [
@@ -2914,6 +4947,7 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
         await storage.createWorkshop(workshop as any);
       }
 
+      await recordAdminAction(req, "learning.seed", null, null);
       res.json({ message: "Sample content seeded successfully", videos: sampleVideos.length, audios: sampleAudios.length, workshops: sampleWorkshops.length });
     } catch (error: any) {
       console.error("Seed error:", error);
@@ -2922,12 +4956,13 @@ Focus on common crop diseases in Indian farming conditions. Be specific and prac
   });
 
   // AI Analysis
-  app.post("/api/account/ai-analysis", async (req, res) => {
+  app.post("/api/account/ai-analysis", requireFarmer, async (req, res) => {
     try {
+      const farmerKey = getFarmerKey(req);
       const [expenses, incomes, crops] = await Promise.all([
-        storage.getExpensesByFarmer(DEFAULT_FARMER_ID),
-        storage.getIncomesByFarmer(DEFAULT_FARMER_ID),
-        storage.getCropsByFarmer(DEFAULT_FARMER_ID),
+        storage.getExpensesByFarmer(farmerKey),
+        storage.getIncomesByFarmer(farmerKey),
+        storage.getCropsByFarmer(farmerKey),
       ]);
 
       const totalExpense = expenses.reduce((sum, e) => sum + e.amount, 0);
@@ -2958,14 +4993,10 @@ Provide:
 
 Keep response concise, practical, and farmer-friendly. Use ₹ symbol for prices.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 500,
-      });
+      const analysis = await generateLlmText("account-analysis", [{ role: "user", content: prompt }]);
 
       res.json({
-        analysis: response.choices[0].message.content,
+        analysis,
         summary: {
           totalExpense,
           totalIncome,
@@ -3075,5 +5106,11 @@ Keep response concise, practical, and farmer-friendly. Use ₹ symbol for prices
     }
   });
 
+  // Real-time booking chat shares the HTTP server
+  attachChatServer(httpServer);
+
+  // Periodic outbreak recount, if OUTBREAK_AGGREGATION_INTERVAL_MINUTES is set
+  startOutbreakAggregation();
+
   return httpServer;
 }
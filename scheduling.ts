@@ -0,0 +1,201 @@
+import { storage } from "./storage";
+import type { Booking, ExpertAvailability } from "@shared/schema";
+
+// Availability is entered and shown in IST; timestamps are stored in UTC
+export const IST_TIMEZONE = "Asia/Kolkata";
+const IST_OFFSET_MS = 330 * 60 * 1000; // UTC+05:30, no daylight saving
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_BOOKING_LEAD_MS = 30 * 60 * 1000; // farmers can't book a slot starting within 30 minutes
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface CategorySlot extends TimeSlot {
+  available: number; // experts still free for this slot
+}
+
+// Thrown for slot problems a farmer or expert can fix (bad time, slot taken)
+export class SchedulingError extends Error {
+  constructor(message: string, public messageHindi: string, public status: number = 400) {
+    super(message);
+    this.name = "SchedulingError";
+  }
+}
+
+// "2025-01-15" + "10:30" (IST) -> UTC instant
+export function istToUtc(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00+05:30`);
+}
+
+// Parse a client-supplied date/time; values without an offset are IST
+export function parseIstDateTime(value: string): Date | null {
+  let normalized = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(normalized)) {
+    normalized = `${normalized}T00:00:00+05:30`;
+  } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(normalized)) {
+    normalized = `${normalized.length === 16 ? `${normalized}:00` : normalized}+05:30`;
+  }
+  const parsed = new Date(normalized);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in IST
+export function toIstDate(instant: Date): string {
+  return new Date(instant.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// e.g. "15 Jan 2025, 10:30 IST" for SMS and display
+export function formatIst(instant: Date): string {
+  const formatted = new Date(instant).toLocaleString("en-IN", {
+    timeZone: IST_TIMEZONE,
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+  return `${formatted} IST`;
+}
+
+function istDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function overlaps(slot: TimeSlot, start: Date | null, end: Date | null): boolean {
+  if (!start || !end) return false;
+  return slot.start < new Date(end) && slot.end > new Date(start);
+}
+
+// Cancelled bookings and bookings whose payment fell through no longer hold their slot
+export function holdsSlot(booking: Booking): boolean {
+  if (booking.sessionStatus === "cancelled-by-farmer" || booking.sessionStatus === "cancelled-by-expert") return false;
+  return booking.paymentStatus !== "FAILED" && booking.paymentStatus !== "REFUNDED";
+}
+
+// Split the weekly windows that fall on an IST date into bookable slots
+export function slotsForDate(windows: ExpertAvailability[], date: string): TimeSlot[] {
+  const dayOfWeek = istDayOfWeek(date);
+  const slots: TimeSlot[] = [];
+  for (const window of windows.filter(w => w.dayOfWeek === dayOfWeek)) {
+    const windowEnd = istToUtc(date, window.endTime).getTime();
+    const step = window.slotMinutes * 60 * 1000;
+    for (let t = istToUtc(date, window.startTime).getTime(); t + step <= windowEnd; t += step) {
+      slots.push({ start: new Date(t), end: new Date(t + step) });
+    }
+  }
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Free slots of one expert on an IST date, after time-off and existing bookings
+export async function getExpertSlots(
+  expertId: number,
+  date: string,
+  options: { bookings?: Booking[]; ignoreLeadTime?: boolean } = {}
+): Promise<TimeSlot[]> {
+  const slots = slotsForDate(await storage.getExpertAvailability(expertId), date);
+  if (slots.length === 0) return [];
+
+  const dayStart = istToUtc(date, "00:00");
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+  const [timeOff, dayBookings] = await Promise.all([
+    storage.getExpertTimeOff(expertId, dayStart),
+    options.bookings ? Promise.resolve(options.bookings) : storage.getScheduledBookingsBetween(dayStart, dayEnd),
+  ]);
+
+  // A booking holds this expert once assigned, or while it waits for the expert the farmer asked for
+  const held = dayBookings.filter(b =>
+    holdsSlot(b) && (b.expertId === expertId || (!b.expertId && b.requestedExpertId === expertId))
+  );
+  const earliest = options.ignoreLeadTime ? 0 : Date.now() + MIN_BOOKING_LEAD_MS;
+
+  return slots.filter(slot =>
+    slot.start.getTime() >= earliest &&
+    !timeOff.some(t => overlaps(slot, t.startsAt, t.endsAt)) &&
+    !held.some(b => overlaps(slot, b.scheduledStart, b.scheduledEnd))
+  );
+}
+
+// Slots on an IST date where at least one expert of the category is still free
+export async function getCategorySlots(category: string, date: string, options: { ignoreLeadTime?: boolean } = {}): Promise<CategorySlot[]> {
+  const allExperts = await storage.getAllExperts();
+  const bookable = allExperts.filter(e =>
+    e.category === category && e.status === "approved" && e.isActive && e.acceptingBookings
+  );
+  if (bookable.length === 0) return [];
+
+  const dayStart = istToUtc(date, "00:00");
+  const dayBookings = await storage.getScheduledBookingsBetween(dayStart, new Date(dayStart.getTime() + DAY_MS));
+
+  const byStart = new Map<number, CategorySlot>();
+  for (const expert of bookable) {
+    for (const slot of await getExpertSlots(expert.id, date, { bookings: dayBookings, ignoreLeadTime: options.ignoreLeadTime })) {
+      const existing = byStart.get(slot.start.getTime());
+      if (existing) existing.available += 1;
+      else byStart.set(slot.start.getTime(), { ...slot, available: 1 });
+    }
+  }
+
+  // Unassigned bookings without a requested expert will take one expert from the pool
+  const pooled = dayBookings.filter(b => holdsSlot(b) && !b.expertId && !b.requestedExpertId && b.category === category);
+  return Array.from(byStart.values())
+    .map(slot => ({ ...slot, available: slot.available - pooled.filter(b => overlaps(slot, b.scheduledStart, b.scheduledEnd)).length }))
+    .filter(slot => slot.available > 0)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Check a requested slot start against what is currently free
+export async function resolveBookingSlot(input: { category: string; slotStart: string; expertId?: number | null }): Promise<TimeSlot> {
+  const start = parseIstDateTime(input.slotStart);
+  if (!start) {
+    throw new SchedulingError("Invalid slot time", "अमान्य समय स्लॉट");
+  }
+
+  const date = toIstDate(start);
+  const slots = input.expertId
+    ? await getExpertSlots(input.expertId, date)
+    : await getCategorySlots(input.category, date);
+  const match = slots.find(s => s.start.getTime() === start.getTime());
+  if (!match) {
+    throw new SchedulingError(
+      "This time slot is not available. Please choose another.",
+      "यह समय स्लॉट उपलब्ध नहीं है। कृपया दूसरा समय चुनें।",
+      409
+    );
+  }
+  return { start: match.start, end: match.end };
+}
+
+// Can this expert take the booking's scheduled slot? Unscheduled (older) bookings always fit
+export async function isExpertFreeForBooking(expertId: number, booking: Booking): Promise<boolean> {
+  if (!booking.scheduledStart || !booking.scheduledEnd) return true;
+  const start = new Date(booking.scheduledStart);
+  const others = (await storage.getScheduledBookingsBetween(start, new Date(booking.scheduledEnd)))
+    .filter(b => b.id !== booking.id);
+  const slots = await getExpertSlots(expertId, toIstDate(start), { bookings: others, ignoreLeadTime: true });
+  return slots.some(s => s.start.getTime() === start.getTime());
+}
+
+// Can a booking that gave up its slot (payment FAILED) take it back? Call under withSlotReservation
+export async function isReleasedSlotStillFree(booking: Booking): Promise<boolean> {
+  if (!booking.scheduledStart || !booking.scheduledEnd) return true;
+  const expertId = booking.expertId ?? booking.requestedExpertId;
+  if (expertId) return await isExpertFreeForBooking(expertId, booking);
+  const start = new Date(booking.scheduledStart);
+  const slots = await getCategorySlots(booking.category, toIstDate(start), { ignoreLeadTime: true });
+  return slots.some(s => s.start.getTime() === start.getTime());
+}
+
+// Slot checks and booking inserts run one at a time per category so two farmers can't take the last
+// free slot. The database lock covers other instances; the local queue keeps each instance to one
+// waiting lock connection instead of filling the pool with them
+let reservationQueue: Promise<unknown> = Promise.resolve();
+
+export function withSlotReservation<T>(category: string, task: () => Promise<T>): Promise<T> {
+  const locked = () => storage.withAdvisoryLock(`slot-reservation:${category}`, task);
+  const run = reservationQueue.then(locked, locked);
+  reservationQueue = run.catch(() => undefined);
+  return run;
+}
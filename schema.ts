@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, timestamp, boolean, integer, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,6 +29,7 @@ export const farmers = pgTable("farmers", {
   language: varchar("language", { length: 20 }).default("hindi"),
   crops: text("crops"), // comma separated
   profilePhoto: text("profile_photo"), // URL to uploaded profile photo
+  outbreakAlerts: boolean("outbreak_alerts").notNull().default(false), // opted in to district outbreak SMS
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   lastLoginAt: timestamp("last_login_at"),
@@ -58,6 +59,45 @@ export const farmerRegisterSchema = z.object({
 export type InsertFarmer = z.infer<typeof insertFarmerSchema>;
 export type Farmer = typeof farmers.$inferSelect;
 
+// One-time passwords for phone login and password reset (codes are stored hashed)
+export const otpPurposes = ["login", "reset-password"] as const;
+
+export const otpCodes = pgTable("otp_codes", {
+  id: serial("id").primaryKey(),
+  phone: varchar("phone", { length: 20 }).notNull(),
+  purpose: varchar("purpose", { length: 20 }).notNull(), // login, reset-password
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  requestIp: varchar("request_ip", { length: 64 }),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  verifiedAt: timestamp("verified_at"),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type OtpPurpose = typeof otpPurposes[number];
+export type OtpCode = typeof otpCodes.$inferSelect;
+
+// Outgoing SMS log with delivery status tracking
+export const smsStatuses = ["queued", "sent", "delivered", "failed"] as const;
+
+export const smsMessages = pgTable("sms_messages", {
+  id: serial("id").primaryKey(),
+  phone: varchar("phone", { length: 20 }).notNull(),
+  template: varchar("template", { length: 50 }).notNull(), // otp, booking-confirmation, workshop-reminder
+  language: varchar("language", { length: 20 }).notNull().default("hindi"),
+  body: text("body").notNull(),
+  provider: varchar("provider", { length: 30 }).notNull(),
+  providerMessageId: varchar("provider_message_id", { length: 100 }),
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, sent, delivered, failed
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type SmsStatus = typeof smsStatuses[number];
+export type SmsMessage = typeof smsMessages.$inferSelect;
+
 // Content share tokens for protected links
 export const contentShares = pgTable("content_shares", {
   id: serial("id").primaryKey(),
@@ -72,23 +112,44 @@ export const contentShares = pgTable("content_shares", {
 
 export type ContentShare = typeof contentShares.$inferSelect;
 
+// Admin roles (existing admins default to super-admin)
+export const adminRoles = ["super-admin", "content-manager", "booking-desk", "read-only"] as const;
+
 // Admin table
 export const admins = pgTable("admins", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
+  role: varchar("role", { length: 30 }).notNull().default("super-admin"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertAdminSchema = createInsertSchema(admins).omit({
+export const insertAdminSchema = createInsertSchema(admins, {
+  role: z.enum(adminRoles).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export type AdminRole = typeof adminRoles[number];
 export type InsertAdmin = z.infer<typeof insertAdminSchema>;
 export type Admin = typeof admins.$inferSelect;
 
+// Admin audit log
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull(),
+  action: varchar("action", { length: 50 }).notNull(), // e.g. expert.status, booking.assign, media.upload
+  targetType: varchar("target_type", { length: 30 }), // expert, booking, learning-content, ...
+  targetId: varchar("target_id", { length: 50 }),
+  details: text("details"), // JSON
+  ipAddress: varchar("ip_address", { length: 64 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type AdminAuditLogEntry = typeof adminAuditLog.$inferSelect;
+
 // Experts table
 export const experts = pgTable("experts", {
   id: serial("id").primaryKey(),
@@ -99,14 +160,46 @@ export const experts = pgTable("experts", {
   category: varchar("category", { length: 50 }).notNull(),
   status: varchar("status", { length: 20 }).notNull().default("pending"),
   isActive: boolean("is_active").notNull().default(true),
+  acceptingBookings: boolean("accepting_bookings").notNull().default(true), // expert-controlled on/off duty switch
+  qualification: text("qualification"), // e.g. "M.Sc. Agronomy, 8 years KVK"
+  experienceYears: integer("experience_years"),
+  documentUrls: text("document_urls").notNull().default("[]"), // JSON: uploaded qualification documents
+  reviewReason: text("review_reason"), // admin's approve/reject reason, shown to the applicant
+  reviewedBy: integer("reviewed_by"), // admins.id
+  reviewedAt: timestamp("reviewed_at"),
+  applicationIp: varchar("application_ip", { length: 45 }), // public applications only; used to throttle them
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertExpertSchema = createInsertSchema(experts).omit({
   id: true,
+  documentUrls: true,
+  applicationIp: true,
+  reviewReason: true,
+  reviewedBy: true,
+  reviewedAt: true,
   createdAt: true,
 });
 
+// Public expert application (documents are uploaded alongside as multipart files)
+export const expertApplicationSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  phone: z.string().regex(/^[6-9]\d{9}$/, "Enter a valid 10-digit mobile number"),
+  category: z.enum(["crop", "soil", "water", "fruit-veg", "cattle"]),
+  qualification: z.string().trim().min(2, "Qualification is required").max(500),
+  experienceYears: z.coerce.number().int().min(0).max(60),
+});
+
+export const expertReviewSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  reason: z.string().trim().max(500).optional(),
+}).refine(r => r.decision === "approve" || (r.reason && r.reason.length >= 3), {
+  message: "A reason is required when rejecting an application",
+  path: ["reason"],
+});
+
 export type InsertExpert = z.infer<typeof insertExpertSchema>;
 export type Expert = typeof experts.$inferSelect;
 
@@ -114,6 +207,7 @@ export type Expert = typeof experts.$inferSelect;
 export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
   sessionId: varchar("session_id", { length: 20 }).notNull().unique(),
+  farmerId: integer("farmer_id"), // farmers.id of the farmer who booked
   name: text("name").notNull(),
   phone: varchar("phone", { length: 20 }).notNull(),
   category: varchar("category", { length: 50 }).notNull(),
@@ -121,29 +215,339 @@ export const bookings = pgTable("bookings", {
   paymentStatus: varchar("payment_status", { length: 20 }).notNull().default("PENDING"),
   sessionStatus: varchar("session_status", { length: 20 }).notNull().default("pending"),
   expertId: integer("expert_id"),
+  requestedExpertId: integer("requested_expert_id"), // expert the farmer asked for, if any
+  feeAmount: integer("fee_amount"), // quoted fee in rupees, locked at booking time
+  discountAmount: integer("discount_amount").default(0),
+  promoCode: varchar("promo_code", { length: 30 }),
+  freeFirstConsult: boolean("free_first_consult").notNull().default(false), // the farmer's one free first consultation
+  assignmentMethod: varchar("assignment_method", { length: 10 }), // auto, manual
+  assignmentReason: text("assignment_reason"),
   assignedAt: timestamp("assigned_at"),
   completedAt: timestamp("completed_at"),
+  scheduledStart: timestamp("scheduled_start"), // slot picked by the farmer (stored in UTC)
+  scheduledEnd: timestamp("scheduled_end"),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("bookings_free_first_consult_idx").on(table.farmerId).where(sql`${table.freeFirstConsult}`),
+]);
 
 export const insertBookingSchema = createInsertSchema(bookings, {
   name: z.string().min(2, "Name must be at least 2 characters"),
   phone: z.string().min(10, "Phone number must be at least 10 digits"),
   category: z.enum(["crop", "soil", "water", "fruit-veg", "cattle"]),
   mode: z.enum(["call", "chat", "video"]),
-  paymentStatus: z.enum(["PENDING", "PAID", "FAILED"]).optional(),
 }).omit({
   id: true,
+  farmerId: true,
+  paymentStatus: true,
+  requestedExpertId: true,
+  feeAmount: true,
+  discountAmount: true,
+  promoCode: true,
+  freeFirstConsult: true,
+  assignmentMethod: true,
+  assignmentReason: true,
   timestamp: true,
   sessionStatus: true,
   expertId: true,
   assignedAt: true,
   completedAt: true,
+  scheduledStart: true,
+  scheduledEnd: true,
 });
 
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type Booking = typeof bookings.$inferSelect;
 
+export const bookingPaymentStatuses = ["PENDING", "PAID", "FAILED", "REFUNDED", "FREE"] as const;
+export type BookingPaymentStatus = typeof bookingPaymentStatuses[number];
+
+// Booking lifecycle (allowed transitions live in booking-lifecycle.ts)
+export const bookingSessionStatuses = [
+  "pending",
+  "assigned",
+  "in-progress",
+  "completed",
+  "cancelled-by-farmer",
+  "cancelled-by-expert",
+  "rescheduled",
+  "no-show",
+] as const;
+export type BookingSessionStatus = typeof bookingSessionStatuses[number];
+
+// Audit trail of every booking status change
+export const bookingEvents = pgTable("booking_events", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  fromStatus: varchar("from_status", { length: 20 }).notNull(),
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  actorRole: varchar("actor_role", { length: 10 }).notNull(), // farmer, expert, admin, system
+  actorId: integer("actor_id"),
+  reason: text("reason"),
+  details: text("details"), // JSON, e.g. old and new slot on reschedule
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type BookingEvent = typeof bookingEvents.$inferSelect;
+
+export const bookingCancelSchema = z.object({
+  reason: z.string().trim().min(3, "Please give a reason").max(500),
+});
+
+export const bookingRescheduleSchema = z.object({
+  slotStart: z.string().min(16, "Please choose a new time slot"),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Farmer feedback on a completed booking (one per booking)
+export const bookingReviews = pgTable("booking_reviews", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull().unique(),
+  farmerId: integer("farmer_id").notNull(),
+  expertId: integer("expert_id").notNull(),
+  rating: integer("rating").notNull(), // 1-5
+  review: text("review"),
+  flagged: boolean("flagged").notNull().default(false), // low rating, needs admin attention
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: integer("resolved_by"), // admins.id
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertBookingReviewSchema = z.object({
+  rating: z.coerce.number().int().min(1, "Rating must be 1-5").max(5, "Rating must be 1-5"),
+  review: z.string().trim().max(1000).optional(),
+});
+
+export type BookingReview = typeof bookingReviews.$inferSelect;
+
+// Expert's consultation notes and prescription for a booking (one per booking, editable)
+export const consultationNotes = pgTable("consultation_notes", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull().unique(),
+  expertId: integer("expert_id").notNull(),
+  diagnosis: text("diagnosis").notNull(),
+  prescriptions: text("prescriptions").notNull().default("[]"), // JSON: [{ product, dose, instructions? }]
+  advice: text("advice"),
+  followUpDate: varchar("follow_up_date", { length: 10 }), // YYYY-MM-DD (IST)
+  imageUrls: text("image_urls").notNull().default("[]"), // JSON array of attachment URLs
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const prescriptionItemSchema = z.object({
+  product: z.string().trim().min(1, "Product name is required").max(200),
+  dose: z.string().trim().min(1, "Dose is required").max(200),
+  instructions: z.string().trim().max(500).optional(),
+});
+
+export const insertConsultationNoteSchema = z.object({
+  diagnosis: z.string().trim().min(3, "Diagnosis is required").max(2000),
+  prescriptions: z.array(prescriptionItemSchema).max(20).default([]),
+  advice: z.string().trim().max(2000).optional(),
+  followUpDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "followUpDate must be YYYY-MM-DD").optional(),
+});
+
+export type PrescriptionItem = z.infer<typeof prescriptionItemSchema>;
+export type InsertConsultationNote = z.infer<typeof insertConsultationNoteSchema>;
+export type ConsultationNote = typeof consultationNotes.$inferSelect;
+
+// Expert earnings ledger: one row per completed (or no-show) booking, in rupees
+export const expertPayoutStatuses = ["unsettled", "settled", "void"] as const;
+export type ExpertPayoutStatus = typeof expertPayoutStatuses[number];
+
+export const expertPayouts = pgTable("expert_payouts", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull(),
+  bookingId: integer("booking_id").notNull().unique(),
+  periodMonth: varchar("period_month", { length: 7 }).notNull(), // YYYY-MM (IST) the session ended in
+  grossAmount: integer("gross_amount").notNull(), // list fee before discounts
+  commissionPercent: integer("commission_percent").notNull(), // platform share at the time
+  platformAmount: integer("platform_amount").notNull(), // amount paid minus the expert's share; the platform absorbs discounts
+  expertAmount: integer("expert_amount").notNull(),
+  status: varchar("status", { length: 10 }).notNull().default("unsettled"),
+  settledAt: timestamp("settled_at"),
+  settledBy: integer("settled_by"), // admins.id
+  settlementReference: varchar("settlement_reference", { length: 100 }), // bank/UPI transaction id
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ExpertPayout = typeof expertPayouts.$inferSelect;
+
+export const settlePayoutsSchema = z.object({
+  expertId: z.coerce.number().int().positive(),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "month must be YYYY-MM"),
+  reference: z.string().trim().min(3, "Settlement reference is required").max(100),
+});
+
+export const consultationCategories = ["crop", "soil", "water", "fruit-veg", "cattle"] as const;
+export const consultationModes = ["call", "chat", "video"] as const;
+
+// Consultation fee catalog, one row per category and mode
+export const consultationFees = pgTable("consultation_fees", {
+  id: serial("id").primaryKey(),
+  category: varchar("category", { length: 50 }).notNull(),
+  mode: varchar("mode", { length: 20 }).notNull(),
+  amount: integer("amount").notNull(), // in rupees
+  firstConsultFree: boolean("first_consult_free").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.category, table.mode)]);
+
+export const insertConsultationFeeSchema = createInsertSchema(consultationFees, {
+  category: z.enum(consultationCategories),
+  mode: z.enum(consultationModes),
+  amount: z.number().int().min(0),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertConsultationFee = z.infer<typeof insertConsultationFeeSchema>;
+export type ConsultationFee = typeof consultationFees.$inferSelect;
+
+// Per-expert fee overrides by mode
+export const expertFeeOverrides = pgTable("expert_fee_overrides", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull(),
+  mode: varchar("mode", { length: 20 }).notNull(),
+  amount: integer("amount").notNull(), // in rupees
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.expertId, table.mode)]);
+
+export type ExpertFeeOverride = typeof expertFeeOverrides.$inferSelect;
+
+// Promo codes
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 30 }).notNull().unique(),
+  discountType: varchar("discount_type", { length: 10 }).notNull(), // percent, flat
+  discountValue: integer("discount_value").notNull(),
+  category: varchar("category", { length: 50 }), // restrict to one category, null = all
+  maxUses: integer("max_uses"),
+  usedCount: integer("used_count").notNull().default(0),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
+  code: z.string().min(3).max(30).transform(c => c.toUpperCase()),
+  discountType: z.enum(["percent", "flat"]),
+  discountValue: z.number().int().min(1),
+  category: z.enum(consultationCategories).nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  usedCount: true,
+  createdAt: true,
+});
+
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type PromoCode = typeof promoCodes.$inferSelect;
+
+// Quote request (also accepted alongside booking creation)
+export const bookingQuoteSchema = z.object({
+  category: z.enum(consultationCategories),
+  mode: z.enum(consultationModes),
+  promoCode: z.string().max(30).optional(),
+  expertId: z.coerce.number().int().positive().optional(),
+});
+
+// Payments for bookings (one booking can have several attempts)
+export const paymentStatuses = ["created", "paid", "failed", "cancelled", "refund-pending", "refunded"] as const;
+
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  provider: varchar("provider", { length: 30 }).notNull(),
+  providerOrderId: varchar("provider_order_id", { length: 100 }).notNull().unique(),
+  providerPaymentId: varchar("provider_payment_id", { length: 100 }),
+  providerRefundId: varchar("provider_refund_id", { length: 100 }),
+  amount: integer("amount").notNull(), // in rupees
+  currency: varchar("currency", { length: 3 }).notNull().default("INR"),
+  status: varchar("status", { length: 20 }).notNull().default("created"), // created, paid, failed, cancelled, refund-pending, refunded
+  statusHistory: text("status_history").notNull().default("[]"), // JSON: [{ status, at, note }]
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type PaymentStatus = typeof paymentStatuses[number];
+export type Payment = typeof payments.$inferSelect;
+
+// Expert weekly availability - times are IST wall-clock, dayOfWeek 0 = Sunday
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24-hour, IST)");
+
+export const expertAvailability = pgTable("expert_availability", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull(),
+  dayOfWeek: integer("day_of_week").notNull(),
+  startTime: varchar("start_time", { length: 5 }).notNull(), // HH:MM
+  endTime: varchar("end_time", { length: 5 }).notNull(),
+  slotMinutes: integer("slot_minutes").notNull().default(30),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertExpertAvailabilitySchema = createInsertSchema(expertAvailability, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  slotMinutes: z.number().int().min(10).max(120).optional(),
+}).omit({
+  id: true,
+  expertId: true,
+  createdAt: true,
+}).refine(w => w.startTime < w.endTime, { message: "startTime must be before endTime", path: ["endTime"] });
+
+export type InsertExpertAvailability = z.infer<typeof insertExpertAvailabilitySchema>;
+export type ExpertAvailability = typeof expertAvailability.$inferSelect;
+
+// Expert time-off (leave, travel) that blocks weekly availability
+export const expertTimeOff = pgTable("expert_time_off", {
+  id: serial("id").primaryKey(),
+  expertId: integer("expert_id").notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ExpertTimeOff = typeof expertTimeOff.$inferSelect;
+
+// Times without an explicit offset are read as IST
+export const expertTimeOffSchema = z.object({
+  startsAt: z.string().min(10),
+  endsAt: z.string().min(10),
+  reason: z.string().max(200).optional(),
+});
+
+// Slot chosen when creating a booking, e.g. "2025-01-15T10:30" (IST)
+export const bookingSlotSchema = z.object({
+  slotStart: z.string().min(16, "Please choose a consultation time slot"),
+});
+
+// Farmer-expert chat messages for "chat" mode bookings
+export const chatParticipantRoles = ["farmer", "expert"] as const;
+export type ChatParticipantRole = typeof chatParticipantRoles[number];
+
+export const bookingMessages = pgTable("booking_messages", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  senderRole: varchar("sender_role", { length: 10 }).notNull(), // farmer, expert
+  senderId: integer("sender_id").notNull(), // farmers.id or experts.id
+  body: text("body"),
+  attachmentUrl: text("attachment_url"),
+  readAt: timestamp("read_at"), // set when the other participant has seen it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type BookingMessage = typeof bookingMessages.$inferSelect;
+
+export const chatMessageSchema = z.object({
+  body: z.string().trim().min(1, "Message cannot be empty").max(2000),
+});
+
 // Login schemas
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -160,8 +564,10 @@ export const advisoryChats = pgTable("advisory_chats", {
   content: text("content").notNull(),
   category: varchar("category", { length: 50 }),
   advisoryType: varchar("advisory_type", { length: 20 }).default("general"), // 'crop', 'cattle', 'general'
-  imageUrl: text("image_url"),
+  imageUrl: text("image_url"), // first photo, kept for older clients
+  imageUrls: text("image_urls"), // JSON array of every photo on the message
   diagnosis: text("diagnosis"), // For storing AI diagnosis results
+  promptVersion: varchar("prompt_version", { length: 60 }), // e.g. "crop/hindi@v3"; set on assistant replies
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
@@ -173,21 +579,171 @@ export const insertAdvisoryChatSchema = createInsertSchema(advisoryChats).omit({
 export type InsertAdvisoryChat = z.infer<typeof insertAdvisoryChatSchema>;
 export type AdvisoryChat = typeof advisoryChats.$inferSelect;
 
+// A farmer's advisory conversation; advisoryChats rows belong to it through sessionId.
+// farmerId is null for visitors who are not logged in (the browser session owns it instead)
+export const advisorySessions = pgTable("advisory_sessions", {
+  id: serial("id").primaryKey(),
+  sessionId: varchar("session_id", { length: 50 }).notNull().unique(),
+  farmerId: integer("farmer_id"),
+  title: varchar("title", { length: 100 }).notNull(),
+  advisoryType: varchar("advisory_type", { length: 20 }).notNull().default("general"),
+  archived: boolean("archived").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const createAdvisorySessionSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  advisoryType: z.enum(["crop", "cattle", "soil", "water", "fruits", "general"]).optional(),
+});
+
+export const updateAdvisorySessionSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  archived: z.boolean().optional(),
+}).refine(data => data.title !== undefined || data.archived !== undefined, {
+  message: "Nothing to update",
+});
+
+export type AdvisorySession = typeof advisorySessions.$inferSelect;
+
 // Advisory query schema for API
 export const advisoryQuerySchema = z.object({
-  sessionId: z.string().min(1),
+  sessionId: z.string().min(1).max(50),
   message: z.string().min(1, "Please enter your question"),
   category: z.enum(["crop", "soil", "pest", "disease", "irrigation"]).optional(),
   advisoryType: z.enum(["crop", "cattle", "soil", "water", "fruits", "general"]).optional(),
+  language: z.enum(["hindi", "english", "marathi"]).optional(),
 });
 
 // Vision advisory schema for crop disease diagnosis
 export const visionAdvisorySchema = z.object({
-  sessionId: z.string().min(1),
+  sessionId: z.string().min(1).max(50),
   message: z.string().optional(),
-  advisoryType: z.enum(["crop", "cattle"]),
+  advisoryType: z.enum(["crop", "cattle"]).default("crop"), // older clients sent no type for crop photos
 });
 
+// Structured result of a vision diagnosis, stored as JSON in advisoryChats.diagnosis
+export const diagnosisConditionTypes = ["disease", "pest", "deficiency", "injury", "healthy", "unknown"] as const;
+export const diagnosisSeverities = ["none", "low", "moderate", "high", "critical"] as const;
+export const expertReferralUrgencies = ["not-needed", "if-no-improvement", "within-a-week", "within-24-hours", "immediately"] as const;
+
+export const diagnosisTreatmentSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  dose: z.string().trim().max(200).optional(),
+  instructions: z.string().trim().max(1000),
+});
+
+export const visionDiagnosisSchema = z.object({
+  subjectType: z.enum(["crop", "animal"]),
+  subject: z.string().trim().min(1).max(100), // e.g. "Tomato", "Buffalo"
+  condition: z.string().trim().min(1).max(200), // e.g. "Early blight", "Healthy"
+  conditionType: z.enum(diagnosisConditionTypes),
+  confidence: z.number().min(0).max(1),
+  severity: z.enum(diagnosisSeverities),
+  organicTreatments: z.array(diagnosisTreatmentSchema).max(10),
+  chemicalTreatments: z.array(diagnosisTreatmentSchema).max(10),
+  expertReferral: z.object({
+    contact: z.enum(["vet", "kvk"]), // veterinarian for animals, Krishi Vigyan Kendra for crops
+    urgency: z.enum(expertReferralUrgencies),
+    reason: z.string().trim().max(500),
+  }),
+});
+
+export type VisionDiagnosis = z.infer<typeof visionDiagnosisSchema>;
+
+// ========== OUTBREAK SURVEILLANCE ==========
+
+// One row per confident disease/pest diagnosis from a farmer whose district is known,
+// with the location as it was when the photo was diagnosed
+export const diagnosisReports = pgTable("diagnosis_reports", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").notNull().unique(), // assistant advisoryChats row
+  farmerId: integer("farmer_id").notNull(),
+  state: varchar("state", { length: 100 }).notNull(),
+  district: varchar("district", { length: 100 }).notNull(),
+  subject: varchar("subject", { length: 100 }).notNull(),
+  condition: varchar("condition", { length: 200 }).notNull(),
+  conditionKey: varchar("condition_key", { length: 200 }).notNull(), // lower-cased, for grouping
+  conditionType: varchar("condition_type", { length: 20 }).notNull(),
+  severity: varchar("severity", { length: 20 }).notNull(),
+  confidencePercent: integer("confidence_percent").notNull(),
+  weekStart: varchar("week_start", { length: 10 }).notNull(), // IST Monday, YYYY-MM-DD
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Weekly case counts per district and condition, written by the aggregation job
+export const outbreakWeeklyStats = pgTable("outbreak_weekly_stats", {
+  id: serial("id").primaryKey(),
+  state: varchar("state", { length: 100 }).notNull(),
+  district: varchar("district", { length: 100 }).notNull(),
+  stateKey: varchar("state_key", { length: 100 }).notNull(), // lower-cased, for grouping
+  districtKey: varchar("district_key", { length: 100 }).notNull(), // lower-cased, for grouping
+  conditionKey: varchar("condition_key", { length: 200 }).notNull(),
+  condition: varchar("condition", { length: 200 }).notNull(),
+  subject: varchar("subject", { length: 100 }).notNull(),
+  weekStart: varchar("week_start", { length: 10 }).notNull(),
+  cases: integer("cases").notNull(),
+  baselineCases: integer("baseline_cases").notNull(), // average of the previous weeks, rounded up
+  isSpike: boolean("is_spike").notNull().default(false),
+  alertedAt: timestamp("alerted_at"), // farmers in the district were told about this spike
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.stateKey, table.districtKey, table.conditionKey, table.weekStart)]);
+
+export const outbreakAlertPreferenceSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export type DiagnosisReport = typeof diagnosisReports.$inferSelect;
+export type OutbreakWeeklyStat = typeof outbreakWeeklyStats.$inferSelect;
+
+// ========== ADVISORY PROMPT TEMPLATES ==========
+
+// System prompts for each advisory type, editable by admins. Every edit is a new version;
+// one version per prompt/language is active at a time
+export const advisoryPromptKeys = ["crop", "cattle", "soil", "water", "fruits", "vision-crop", "vision-cattle"] as const;
+export type AdvisoryPromptKey = typeof advisoryPromptKeys[number];
+
+export const advisoryLanguages = ["hindi", "english", "marathi"] as const;
+export type AdvisoryLanguage = typeof advisoryLanguages[number];
+
+// Placeholders a template may use as {{name}}
+export const promptTemplateVariables = ["date", "language", "liveData", "farmerProfile"] as const;
+
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial("id").primaryKey(),
+  promptKey: varchar("prompt_key", { length: 20 }).notNull(),
+  language: varchar("language", { length: 20 }).notNull(),
+  version: integer("version").notNull(),
+  body: text("body").notNull(),
+  changeNote: text("change_note"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdBy: integer("created_by"), // admin id
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.promptKey, table.language, table.version)]);
+
+const promptTemplateBody = z.string().min(20).max(20000).refine(
+  body => Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g)).every(m => (promptTemplateVariables as readonly string[]).includes(m[1])),
+  { message: `Unknown template variable; allowed: ${promptTemplateVariables.map(v => `{{${v}}}`).join(", ")}` }
+);
+
+export const promptTemplateSchema = z.object({
+  promptKey: z.enum(advisoryPromptKeys),
+  language: z.enum(advisoryLanguages),
+  body: promptTemplateBody,
+  changeNote: z.string().max(500).optional(),
+  activate: z.boolean().default(true),
+});
+
+export const promptPreviewSchema = z.object({
+  promptKey: z.enum(advisoryPromptKeys),
+  language: z.enum(advisoryLanguages),
+  body: promptTemplateBody.optional(), // unsaved draft; defaults to the active version
+  message: z.string().max(500).optional(), // sample question used to fetch live data
+  farmerId: z.number().int().positive().optional(), // fill {{farmerProfile}} from this farmer
+});
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+
 // Market prices table for live mandi data
 export const marketPrices = pgTable("market_prices", {
   id: serial("id").primaryKey(),
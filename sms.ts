@@ -0,0 +1,228 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { SmsMessage, SmsStatus } from "@shared/schema";
+
+// SMS gateway abstraction - pick the provider with SMS_PROVIDER (twilio, console, file, loopback)
+export interface SmsSendResult {
+  status: SmsStatus;
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, body: string): Promise<SmsSendResult>;
+}
+
+// Logs messages to the server console (local development)
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = "console";
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    console.log(`[SMS] To ${to}: ${body}`);
+    return { status: "sent", providerMessageId: `console-${crypto.randomUUID()}` };
+  }
+}
+
+// Appends messages as JSON lines to a local outbox file
+export class FileSmsProvider implements SmsProvider {
+  readonly name = "file";
+
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const providerMessageId = `file-${crypto.randomUUID()}`;
+    const line = JSON.stringify({ id: providerMessageId, to, body, sentAt: new Date().toISOString() });
+    await fs.promises.appendFile(this.filePath, line + "\n");
+    return { status: "sent", providerMessageId };
+  }
+}
+
+// Keeps messages in memory so tests can assert what was sent
+export class LoopbackSmsProvider implements SmsProvider {
+  readonly name = "loopback";
+  readonly outbox: { id: string; to: string; body: string; sentAt: Date }[] = [];
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const id = `loopback-${this.outbox.length + 1}`;
+    this.outbox.push({ id, to, body, sentAt: new Date() });
+    return { status: "delivered", providerMessageId: id };
+  }
+
+  lastMessageTo(to: string) {
+    return [...this.outbox].reverse().find(m => m.to === to);
+  }
+
+  clear() {
+    this.outbox.length = 0;
+  }
+}
+
+const SMS_GATEWAY_TIMEOUT_MS = 10000;
+const twilioStatuses: Record<string, SmsStatus> = { sent: "sent", delivered: "delivered", failed: "failed", undelivered: "failed" };
+
+// Sends through the Twilio Messages API; numbers without a country code are taken as Indian
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = "twilio";
+
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(this.accountSid)}/Messages.json`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ To: to.startsWith("+") ? to : `+91${to}`, From: this.from, Body: body }),
+      signal: AbortSignal.timeout(SMS_GATEWAY_TIMEOUT_MS),
+    });
+    const result: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { status: "failed", error: result.message || `Twilio request failed with ${response.status}` };
+    }
+    return {
+      status: twilioStatuses[result.status] ?? "queued",
+      providerMessageId: result.sid,
+      error: result.error_message ?? undefined,
+    };
+  }
+}
+
+// Providers that never reach a phone: console and file write OTPs in plain text, loopback keeps them in memory
+const devOnlySmsProviders = ["console", "file", "loopback"];
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} must be set when SMS_PROVIDER=${process.env.SMS_PROVIDER}`);
+  return value;
+}
+
+export function createSmsProvider(): SmsProvider {
+  const provider = process.env.SMS_PROVIDER;
+  if (process.env.NODE_ENV === "production" && (!provider || devOnlySmsProviders.includes(provider))) {
+    throw new Error("SMS_PROVIDER must be set to a real gateway (twilio) in production");
+  }
+  switch (provider) {
+    case "twilio":
+      return new TwilioSmsProvider(requireEnv("TWILIO_ACCOUNT_SID"), requireEnv("TWILIO_AUTH_TOKEN"), requireEnv("TWILIO_FROM_NUMBER"));
+    case "file":
+      return new FileSmsProvider(process.env.SMS_OUTBOX_FILE || path.join(process.cwd(), "sms-outbox.log"));
+    case "loopback":
+      return new LoopbackSmsProvider();
+    case undefined:
+    case "":
+    case "console":
+      return new ConsoleSmsProvider();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${provider}"`);
+  }
+}
+
+export let smsProvider: SmsProvider = createSmsProvider();
+
+// Swap the active provider (used by tests with LoopbackSmsProvider)
+export function setSmsProvider(provider: SmsProvider) {
+  smsProvider = provider;
+}
+
+// ========== MESSAGE TEMPLATES ==========
+
+type SmsVars = Record<string, string | number | undefined | null>;
+
+export const smsTemplates = {
+  "otp": {
+    english: (v: SmsVars) => `${v.otp} is your KisanDecks OTP. It is valid for ${v.minutes} minutes. Do not share it with anyone.`,
+    hindi: (v: SmsVars) => `${v.otp} आपका KisanDecks OTP है। यह ${v.minutes} मिनट तक मान्य है। इसे किसी से साझा न करें।`,
+  },
+  "booking-confirmation": {
+    english: (v: SmsVars) => `Namaste ${v.name}, your KisanDecks ${v.category} consultation (${v.mode}) is booked${v.slot ? ` for ${v.slot}` : ""}. Booking ID: ${v.sessionId}. Our expert will contact you soon.`,
+    hindi: (v: SmsVars) => `नमस्ते ${v.name}, आपका KisanDecks ${v.category} परामर्श (${v.mode})${v.slot ? ` ${v.slot} के लिए` : ""} बुक हो गया है। बुकिंग ID: ${v.sessionId}। हमारे विशेषज्ञ जल्द संपर्क करेंगे।`,
+  },
+  "booking-cancelled": {
+    english: (v: SmsVars) => `Namaste ${v.name}, your KisanDecks consultation ${v.sessionId} has been cancelled by the expert.${v.refunded ? " Your payment will be refunded." : ""} Please book a new slot.`,
+    hindi: (v: SmsVars) => `नमस्ते ${v.name}, आपका KisanDecks परामर्श ${v.sessionId} विशेषज्ञ द्वारा रद्द कर दिया गया है।${v.refunded ? " आपका भुगतान वापस कर दिया जाएगा।" : ""} कृपया नया समय बुक करें।`,
+  },
+  "booking-rescheduled": {
+    english: (v: SmsVars) => `Namaste ${v.name}, your KisanDecks consultation ${v.sessionId} has been moved to ${v.slot}.`,
+    hindi: (v: SmsVars) => `नमस्ते ${v.name}, आपका KisanDecks परामर्श ${v.sessionId} अब ${v.slot} पर होगा।`,
+  },
+  "expert-application-received": {
+    english: (v: SmsVars) => `Namaste ${v.name}, we have received your KisanDecks expert application. We will inform you after review.`,
+    hindi: (v: SmsVars) => `नमस्ते ${v.name}, KisanDecks विशेषज्ञ आवेदन प्राप्त हो गया है। जांच के बाद हम आपको सूचित करेंगे।`,
+  },
+  "expert-application-approved": {
+    english: (v: SmsVars) => `Congratulations ${v.name}! Your KisanDecks expert application is approved. You can now log in as ${v.username}.`,
+    hindi: (v: SmsVars) => `बधाई हो ${v.name}! आपका KisanDecks विशेषज्ञ आवेदन स्वीकृत हो गया है। अब आप ${v.username} से लॉगिन कर सकते हैं।`,
+  },
+  "expert-application-rejected": {
+    english: (v: SmsVars) => `Namaste ${v.name}, your KisanDecks expert application was not approved. Reason: ${v.reason}`,
+    hindi: (v: SmsVars) => `नमस्ते ${v.name}, आपका KisanDecks विशेषज्ञ आवेदन स्वीकृत नहीं हुआ। कारण: ${v.reason}`,
+  },
+  "outbreak-alert": {
+    english: (v: SmsVars) => `KisanDecks alert: many farmers in ${v.district} reported ${v.condition} on ${v.subject} this week. Check your fields and ask KisanDecks advisory if you see signs.`,
+    hindi: (v: SmsVars) => `KisanDecks चेतावनी: ${v.district} में इस सप्ताह कई किसानों ने ${v.subject} में ${v.condition} की शिकायत की है। अपने खेत की जांच करें और लक्षण दिखें तो KisanDecks सलाह लें।`,
+  },
+  "workshop-reminder": {
+    english: (v: SmsVars) => `Reminder: KisanDecks workshop "${v.title}" starts at ${v.startsAt}.${v.joinLink ? ` Join: ${v.joinLink}` : ""}`,
+    hindi: (v: SmsVars) => `याद दिलाना: KisanDecks कार्यशाला "${v.title}" ${v.startsAt} पर शुरू होगी।${v.joinLink ? ` जुड़ें: ${v.joinLink}` : ""}`,
+  },
+};
+
+export type SmsTemplate = keyof typeof smsTemplates;
+
+export function renderSmsTemplate(template: SmsTemplate, vars: SmsVars, language?: string | null): { language: "english" | "hindi"; body: string } {
+  // Hindi is the default; other regional languages fall back to it until templates exist
+  const lang = language === "english" ? "english" : "hindi";
+  return { language: lang, body: smsTemplates[template][lang](vars) };
+}
+
+// Variables that must never reach the SMS log (admins can read it)
+const secretSmsVars = ["otp"];
+
+function redactSmsVars(vars: SmsVars): SmsVars {
+  const redacted = { ...vars };
+  for (const key of secretSmsVars) {
+    if (redacted[key] != null) redacted[key] = "******";
+  }
+  return redacted;
+}
+
+// Render a template, send it through the active provider and record delivery status
+export async function sendSms(phone: string, template: SmsTemplate, vars: SmsVars, language?: string | null): Promise<SmsMessage> {
+  const rendered = renderSmsTemplate(template, vars, language);
+  const message = await storage.createSmsMessage({
+    phone,
+    template,
+    language: rendered.language,
+    body: renderSmsTemplate(template, redactSmsVars(vars), language).body,
+    provider: smsProvider.name,
+  });
+
+  let result: SmsSendResult;
+  try {
+    result = await smsProvider.send(phone, rendered.body);
+  } catch (error: any) {
+    result = { status: "failed", error: error.message || "Send failed" };
+  }
+
+  const updated = await storage.updateSmsMessageStatus(message.id, {
+    status: result.status,
+    providerMessageId: result.providerMessageId ?? null,
+    error: result.error ?? null,
+  });
+  return updated || message;
+}
+
+// Constant-time check of the shared secret sent with gateway delivery callbacks
+export function verifySmsWebhookSecret(provided: string | undefined): boolean {
+  const secret = process.env.SMS_WEBHOOK_SECRET;
+  if (!secret || !provided) return false;
+  const expected = crypto.createHash("sha256").update(secret).digest();
+  const actual = crypto.createHash("sha256").update(provided).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
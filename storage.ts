@@ -1,5 +1,5 @@
-import { type User, type InsertUser, type Booking, type InsertBooking, type Admin, type InsertAdmin, type Expert, type InsertExpert, type AdvisoryChat, type InsertAdvisoryChat, type MarketPrice, type WeatherData, type Expense, type InsertExpense, type Income, type InsertIncome, type CropTracking, type InsertCropTracking, type LearningContent, type InsertLearningContent, type Workshop, type InsertWorkshop, type WorkshopRegistration, type InsertWorkshopRegistration, type LearningProgress, type InsertLearningProgress, type Farmer, type InsertFarmer, type ContentShare, users, bookings, admins, experts, advisoryChats, marketPrices, weatherData, expenses, incomes, cropTracking, learningContent, workshops, workshopRegistrations, learningProgress, farmers, contentShares } from "@shared/schema";
-import { eq, desc, and, like, sql } from "drizzle-orm";
+import { type User, type InsertUser, type Booking, type InsertBooking, type Admin, type InsertAdmin, type Expert, type InsertExpert, type AdvisoryChat, type InsertAdvisoryChat, type MarketPrice, type WeatherData, type Expense, type InsertExpense, type Income, type InsertIncome, type CropTracking, type InsertCropTracking, type LearningContent, type InsertLearningContent, type Workshop, type InsertWorkshop, type WorkshopRegistration, type InsertWorkshopRegistration, type LearningProgress, type InsertLearningProgress, type Farmer, type InsertFarmer, type ContentShare, type OtpCode, type SmsMessage, type AdminAuditLogEntry, type Payment, type BookingPaymentStatus, type ConsultationFee, type InsertConsultationFee, type ExpertFeeOverride, type PromoCode, type InsertPromoCode, type ExpertAvailability, type InsertExpertAvailability, type ExpertTimeOff, type BookingMessage, type ChatParticipantRole, type BookingEvent, type BookingSessionStatus, type BookingReview, type ConsultationNote, type InsertConsultationNote, type ExpertPayout, type PromptTemplate, type AdvisorySession, type DiagnosisReport, type OutbreakWeeklyStat, users, bookings, admins, experts, advisoryChats, marketPrices, weatherData, expenses, incomes, cropTracking, learningContent, workshops, workshopRegistrations, learningProgress, farmers, contentShares, otpCodes, smsMessages, adminAuditLog, payments, consultationFees, expertFeeOverrides, promoCodes, expertAvailability, expertTimeOff, bookingMessages, bookingEvents, bookingReviews, consultationNotes, expertPayouts, promptTemplates, advisorySessions, diagnosisReports, outbreakWeeklyStats } from "@shared/schema";
+import { eq, desc, and, like, sql, isNull, inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/node-postgres";
 import pg from "pg";
 
@@ -15,30 +15,119 @@ export interface IStorage {
   getAdminByUsername(username: string): Promise<Admin | undefined>;
   getAdminById(id: number): Promise<Admin | undefined>;
   createAdmin(admin: InsertAdmin): Promise<Admin>;
+  getAllAdmins(): Promise<Admin[]>;
+  updateAdminRole(id: number, role: string): Promise<Admin | undefined>;
+  
+  // Admin Audit Log
+  createAdminAuditLog(entry: Omit<AdminAuditLogEntry, 'id' | 'createdAt'>): Promise<AdminAuditLogEntry>;
+  getAdminAuditLog(options: { limit: number; offset: number; adminId?: number; action?: string }): Promise<{ entries: AdminAuditLogEntry[]; total: number }>;
   
   // Experts
   getExpertByUsername(username: string): Promise<Expert | undefined>;
   getExpertById(id: number): Promise<Expert | undefined>;
   getAllExperts(): Promise<Expert[]>;
-  createExpert(expert: InsertExpert): Promise<Expert>;
+  createExpert(expert: InsertExpert & { documentUrls?: string; applicationIp?: string | null }): Promise<Expert>;
+  countExpertApplicationsByIpSince(ip: string, since: Date): Promise<number>;
+  getExpertsByStatus(status: string): Promise<Expert[]>;
   updateExpertStatus(id: number, status: string): Promise<Expert | undefined>;
+  reviewExpertApplication(id: number, status: "approved" | "rejected", reason: string | null, adminId: number): Promise<Expert | undefined>;
   updateExpertActive(id: number, isActive: boolean): Promise<Expert | undefined>;
   updateExpertPassword(id: number, password: string): Promise<Expert | undefined>;
+  updateExpertAcceptingBookings(id: number, acceptingBookings: boolean): Promise<Expert | undefined>;
   deleteExpert(id: number): Promise<void>;
   
   // Bookings
-  createBooking(booking: InsertBooking): Promise<Booking>;
+  createBooking(booking: InsertBooking & { farmerId: number; requestedExpertId?: number | null; feeAmount: number; discountAmount: number; promoCode?: string | null; freeFirstConsult?: boolean; paymentStatus?: BookingPaymentStatus; scheduledStart?: Date | null; scheduledEnd?: Date | null }): Promise<Booking | undefined>;
   getBookingBySessionId(sessionId: string): Promise<Booking | undefined>;
   getBookingById(id: number): Promise<Booking | undefined>;
   getAllBookings(): Promise<Booking[]>;
   getBookingsByExpertId(expertId: number): Promise<Booking[]>;
-  updateBookingPaymentStatus(sessionId: string, status: "PENDING" | "PAID" | "FAILED"): Promise<Booking | undefined>;
-  assignExpertToBooking(bookingId: number, expertId: number): Promise<Booking | undefined>;
-  updateBookingSessionStatus(bookingId: number, status: string): Promise<Booking | undefined>;
+  getBookingsByFarmerId(farmerId: number): Promise<Booking[]>;
+  updateBookingPaymentStatus(sessionId: string, status: BookingPaymentStatus, fromStatuses?: readonly BookingPaymentStatus[]): Promise<Booking | undefined>;
+  transitionBookingStatus(
+    bookingId: number,
+    fromStatus: BookingSessionStatus,
+    toStatus: BookingSessionStatus,
+    updates: Partial<Pick<Booking, 'expertId' | 'assignedAt' | 'completedAt' | 'assignmentMethod' | 'assignmentReason' | 'scheduledStart' | 'scheduledEnd'>>,
+    event: Pick<BookingEvent, 'actorRole' | 'actorId' | 'reason' | 'details'>,
+    buildPayout?: (booking: Booking) => Parameters<IStorage['createExpertPayout']>[0] | undefined
+  ): Promise<Booking | undefined>;
+  getBookingEvents(bookingId: number): Promise<BookingEvent[]>;
+  
+  // Booking Reviews
+  createBookingReview(review: Pick<BookingReview, 'bookingId' | 'farmerId' | 'expertId' | 'rating' | 'review' | 'flagged'>): Promise<BookingReview>;
+  getBookingReviewByBookingId(bookingId: number): Promise<BookingReview | undefined>;
+  getReviewsByExpertId(expertId: number): Promise<BookingReview[]>;
+  getReviews(filters: { flagged?: boolean; unresolvedOnly?: boolean; expertId?: number }): Promise<BookingReview[]>;
+  resolveBookingReview(id: number, adminId: number, note: string | null): Promise<BookingReview | undefined>;
+  getExpertRatingStats(): Promise<{ expertId: number; count: number; average: number }[]>;
+  
+  // Consultation Notes
+  getConsultationNoteByBookingId(bookingId: number): Promise<ConsultationNote | undefined>;
+  upsertConsultationNote(bookingId: number, expertId: number, note: InsertConsultationNote, imageUrls: string[]): Promise<ConsultationNote>;
+  
+  // Expert Payouts
+  createExpertPayout(payout: Pick<ExpertPayout, 'expertId' | 'bookingId' | 'periodMonth' | 'grossAmount' | 'commissionPercent' | 'platformAmount' | 'expertAmount'>): Promise<ExpertPayout | undefined>;
+  getExpertPayouts(filters: { expertId?: number; fromMonth?: string; toMonth?: string; status?: string }): Promise<ExpertPayout[]>;
+  settleExpertPayouts(expertId: number, periodMonth: string, adminId: number, reference: string): Promise<ExpertPayout[]>;
+  voidExpertPayoutForBooking(bookingId: number): Promise<ExpertPayout | undefined>;
+  
+  // Pricing
+  getConsultationFees(): Promise<ConsultationFee[]>;
+  getConsultationFee(category: string, mode: string): Promise<ConsultationFee | undefined>;
+  upsertConsultationFee(fee: InsertConsultationFee): Promise<ConsultationFee>;
+  getExpertFeeOverrides(expertId: number): Promise<ExpertFeeOverride[]>;
+  getExpertFeeOverride(expertId: number, mode: string): Promise<ExpertFeeOverride | undefined>;
+  upsertExpertFeeOverride(expertId: number, mode: string, amount: number): Promise<ExpertFeeOverride>;
+  deleteExpertFeeOverride(expertId: number, mode: string): Promise<void>;
+  getPromoCodes(): Promise<PromoCode[]>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promo: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: number, promo: Partial<InsertPromoCode>): Promise<PromoCode | undefined>;
+  incrementPromoCodeUsage(id: number): Promise<boolean>;
+  
+  // Payments
+  createPayment(payment: Pick<Payment, 'bookingId' | 'provider' | 'providerOrderId' | 'amount' | 'currency'>): Promise<Payment>;
+  getPaymentById(id: number): Promise<Payment | undefined>;
+  getPaymentByProviderOrderId(providerOrderId: string): Promise<Payment | undefined>;
+  getPaymentsByBookingId(bookingId: number): Promise<Payment[]>;
+  updatePaymentStatus(id: number, status: string, note?: string, updates?: Partial<Pick<Payment, 'providerPaymentId' | 'providerRefundId'>>, fromStatuses?: readonly string[]): Promise<Payment | undefined>;
+  
+  // Expert Availability
+  getExpertAvailability(expertId: number): Promise<ExpertAvailability[]>;
+  replaceExpertAvailability(expertId: number, windows: InsertExpertAvailability[]): Promise<ExpertAvailability[]>;
+  getExpertTimeOff(expertId: number, from?: Date): Promise<ExpertTimeOff[]>;
+  createExpertTimeOff(timeOff: Pick<ExpertTimeOff, 'expertId' | 'startsAt' | 'endsAt' | 'reason'>): Promise<ExpertTimeOff>;
+  deleteExpertTimeOff(id: number, expertId: number): Promise<boolean>;
+  getScheduledBookingsBetween(start: Date, end: Date): Promise<Booking[]>;
+  withAdvisoryLock<T>(key: string, task: () => Promise<T>): Promise<T>;
+  
+  // Booking Chat
+  createBookingMessage(message: Pick<BookingMessage, 'bookingId' | 'senderRole' | 'senderId' | 'body' | 'attachmentUrl'>): Promise<BookingMessage>;
+  getBookingMessages(bookingId: number, options?: { beforeId?: number; limit?: number }): Promise<BookingMessage[]>;
+  getBookingMessageByAttachment(bookingId: number, attachmentUrl: string): Promise<BookingMessage | undefined>;
+  markBookingMessagesRead(bookingId: number, readerRole: ChatParticipantRole, upToId?: number): Promise<BookingMessage[]>;
+  countUnreadBookingMessages(bookingId: number, readerRole: ChatParticipantRole): Promise<number>;
   
   // Advisory Chats
   createAdvisoryChat(chat: InsertAdvisoryChat): Promise<AdvisoryChat>;
   getAdvisoryChatsBySession(sessionId: string): Promise<AdvisoryChat[]>;
+  deleteAdvisoryChat(id: number): Promise<void>;
+  
+  // Advisory Sessions
+  createAdvisorySession(session: Pick<AdvisorySession, 'sessionId' | 'farmerId' | 'title' | 'advisoryType'>): Promise<AdvisorySession | undefined>;
+  getAdvisorySession(sessionId: string): Promise<AdvisorySession | undefined>;
+  getAdvisorySessionsByFarmer(farmerId: number, options?: { archived?: boolean }): Promise<AdvisorySession[]>;
+  updateAdvisorySession(sessionId: string, updates: Partial<Pick<AdvisorySession, 'title' | 'archived' | 'farmerId'>>): Promise<AdvisorySession | undefined>;
+  touchAdvisorySession(sessionId: string): Promise<void>;
+  deleteAdvisorySession(sessionId: string): Promise<boolean>;
+  
+  // Advisory Prompt Templates
+  getPromptTemplates(filter?: { promptKey?: string; language?: string }): Promise<PromptTemplate[]>;
+  getPromptTemplateById(id: number): Promise<PromptTemplate | undefined>;
+  getActivePromptTemplate(promptKey: string, language: string): Promise<PromptTemplate | undefined>;
+  createPromptTemplateVersion(template: Pick<PromptTemplate, 'promptKey' | 'language' | 'body' | 'changeNote' | 'createdBy'>, activate: boolean): Promise<PromptTemplate>;
+  activatePromptTemplate(id: number): Promise<PromptTemplate | undefined>;
   
   // Market Prices
   upsertMarketPrice(price: Omit<MarketPrice, 'id' | 'updatedAt'>): Promise<MarketPrice>;
@@ -74,17 +163,23 @@ export interface IStorage {
   getExpenseSummaryByCategory(farmerId: string, startDate?: Date, endDate?: Date): Promise<{category: string, total: number}[]>;
   getIncomeSummaryByCategory(farmerId: string, startDate?: Date, endDate?: Date): Promise<{category: string, total: number}[]>;
   getCropWiseExpenses(farmerId: string, cropName: string): Promise<{category: string, total: number}[]>;
+  reassignAccountBook(fromFarmerId: string, toFarmerId: string): Promise<{ expenses: number, incomes: number, crops: number }>;
   
   // Learning Module
   getLearningContent(type?: string, category?: string, query?: string): Promise<LearningContent[]>;
   getLearningContentById(id: number): Promise<LearningContent | undefined>;
   createLearningContent(content: InsertLearningContent): Promise<LearningContent>;
   incrementViewCount(id: number): Promise<void>;
+  getAllLearningContent(): Promise<LearningContent[]>;
+  updateLearningContent(id: number, content: Partial<InsertLearningContent>): Promise<LearningContent | undefined>;
+  deleteLearningContent(id: number): Promise<void>;
   
   // Workshops
   getWorkshops(): Promise<Workshop[]>;
   getWorkshopById(id: number): Promise<Workshop | undefined>;
   createWorkshop(workshop: InsertWorkshop): Promise<Workshop>;
+  getAllWorkshops(): Promise<Workshop[]>;
+  updateWorkshop(id: number, workshop: Partial<InsertWorkshop> & { status?: string }): Promise<Workshop | undefined>;
   registerForWorkshop(registration: InsertWorkshopRegistration): Promise<WorkshopRegistration>;
   getWorkshopRegistrations(workshopId: number): Promise<WorkshopRegistration[]>;
   isUserRegistered(workshopId: number, farmerId: string): Promise<boolean>;
@@ -103,6 +198,30 @@ export interface IStorage {
   updateFarmerPassword(id: number, password: string): Promise<void>;
   updateFarmerProfile(id: number, data: { name?: string; email?: string; village?: string; district?: string; state?: string; language?: string; profilePhoto?: string }): Promise<void>;
   deleteFarmer(id: number): Promise<void>;
+  updateFarmerOutbreakAlerts(id: number, enabled: boolean): Promise<Farmer | undefined>;
+  getFarmersForOutbreakAlerts(state: string, district: string): Promise<Farmer[]>;
+  
+  // Outbreak Surveillance
+  createDiagnosisReport(report: Omit<DiagnosisReport, 'id' | 'createdAt'>): Promise<DiagnosisReport | undefined>;
+  countDiagnosisReportsByWeek(fromWeek: string): Promise<{ state: string; district: string; conditionKey: string; condition: string; subject: string; weekStart: string; cases: number }[]>;
+  upsertOutbreakWeeklyStat(stat: Omit<OutbreakWeeklyStat, 'id' | 'alertedAt' | 'updatedAt'>): Promise<OutbreakWeeklyStat>;
+  claimOutbreakAlert(id: number): Promise<boolean>;
+  getOutbreakWeeklyStats(filter: { fromWeek: string; state?: string; district?: string; spikesOnly?: boolean }): Promise<OutbreakWeeklyStat[]>;
+  
+  // OTP Codes
+  createOtpCode(otp: Pick<OtpCode, 'phone' | 'purpose' | 'codeHash' | 'requestIp' | 'expiresAt'>): Promise<OtpCode>;
+  getActiveOtpCode(phone: string, purpose: string): Promise<OtpCode | undefined>;
+  countOtpCodesByPhoneSince(phone: string, since: Date): Promise<number>;
+  countOtpCodesByIpSince(ip: string, since: Date): Promise<number>;
+  incrementOtpAttempts(id: number, maxAttempts: number): Promise<OtpCode | undefined>;
+  markOtpVerified(id: number): Promise<void>;
+  consumeOtpCodes(phone: string, purpose: string): Promise<void>;
+  
+  // SMS Messages
+  createSmsMessage(message: Pick<SmsMessage, 'phone' | 'template' | 'language' | 'body' | 'provider'>): Promise<SmsMessage>;
+  updateSmsMessageStatus(id: number, update: { status: string; providerMessageId?: string | null; error?: string | null }): Promise<SmsMessage | undefined>;
+  updateSmsStatusByProviderId(providerMessageId: string, status: string, error?: string | null): Promise<SmsMessage | undefined>;
+  getRecentSmsMessages(limit?: number, phone?: string): Promise<SmsMessage[]>;
   
   // Content Sharing
   createContentShare(share: Omit<ContentShare, 'id' | 'createdAt' | 'accessCount'>): Promise<ContentShare>;
@@ -152,6 +271,38 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getAllAdmins(): Promise<Admin[]> {
+    return await this.db.select().from(admins).orderBy(desc(admins.createdAt));
+  }
+
+  async updateAdminRole(id: number, role: string): Promise<Admin | undefined> {
+    const result = await this.db.update(admins).set({ role }).where(eq(admins.id, id)).returning();
+    return result[0];
+  }
+
+  // Admin Audit Log
+  async createAdminAuditLog(entry: Omit<AdminAuditLogEntry, 'id' | 'createdAt'>): Promise<AdminAuditLogEntry> {
+    const result = await this.db.insert(adminAuditLog).values(entry).returning();
+    return result[0];
+  }
+
+  async getAdminAuditLog(options: { limit: number; offset: number; adminId?: number; action?: string }): Promise<{ entries: AdminAuditLogEntry[]; total: number }> {
+    const conditions = [];
+    if (options.adminId) conditions.push(eq(adminAuditLog.adminId, options.adminId));
+    if (options.action) conditions.push(eq(adminAuditLog.action, options.action));
+    const where = conditions.length > 0 ? and(...conditions) : sql`TRUE`;
+    
+    const [entries, count] = await Promise.all([
+      this.db.select().from(adminAuditLog)
+        .where(where)
+        .orderBy(desc(adminAuditLog.createdAt))
+        .limit(options.limit)
+        .offset(options.offset),
+      this.db.select({ total: sql<number>`COUNT(*)` }).from(adminAuditLog).where(where),
+    ]);
+    return { entries, total: Number(count[0]?.total || 0) };
+  }
+
   // Experts
   async getExpertByUsername(username: string): Promise<Expert | undefined> {
     const result = await this.db.select().from(experts).where(eq(experts.username, username)).limit(1);
@@ -168,16 +319,36 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async createExpert(expert: InsertExpert): Promise<Expert> {
+  async createExpert(expert: InsertExpert & { documentUrls?: string; applicationIp?: string | null }): Promise<Expert> {
     const result = await this.db.insert(experts).values(expert).returning();
     return result[0];
   }
 
+  async countExpertApplicationsByIpSince(ip: string, since: Date): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`count(*)` })
+      .from(experts)
+      .where(and(eq(experts.applicationIp, ip), sql`${experts.createdAt} >= ${since}`));
+    return Number(result[0]?.count || 0);
+  }
+
   async updateExpertStatus(id: number, status: string): Promise<Expert | undefined> {
     const result = await this.db.update(experts).set({ status }).where(eq(experts.id, id)).returning();
     return result[0];
   }
 
+  async getExpertsByStatus(status: string): Promise<Expert[]> {
+    return await this.db.select().from(experts).where(eq(experts.status, status)).orderBy(experts.createdAt);
+  }
+
+  // Only pending applications can be reviewed; undefined if another admin got there first
+  async reviewExpertApplication(id: number, status: "approved" | "rejected", reason: string | null, adminId: number): Promise<Expert | undefined> {
+    const result = await this.db.update(experts)
+      .set({ status, reviewReason: reason, reviewedBy: adminId, reviewedAt: new Date() })
+      .where(and(eq(experts.id, id), eq(experts.status, "pending")))
+      .returning();
+    return result[0];
+  }
+
   async updateExpertActive(id: number, isActive: boolean): Promise<Expert | undefined> {
     const result = await this.db.update(experts).set({ isActive }).where(eq(experts.id, id)).returning();
     return result[0];
@@ -188,13 +359,21 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async updateExpertAcceptingBookings(id: number, acceptingBookings: boolean): Promise<Expert | undefined> {
+    const result = await this.db.update(experts).set({ acceptingBookings }).where(eq(experts.id, id)).returning();
+    return result[0];
+  }
+
   async deleteExpert(id: number): Promise<void> {
     await this.db.delete(experts).where(eq(experts.id, id));
   }
 
   // Bookings
-  async createBooking(booking: InsertBooking): Promise<Booking> {
-    const result = await this.db.insert(bookings).values(booking).returning();
+  async createBooking(booking: InsertBooking & { farmerId: number; requestedExpertId?: number | null; feeAmount: number; discountAmount: number; promoCode?: string | null; freeFirstConsult?: boolean; paymentStatus?: BookingPaymentStatus; scheduledStart?: Date | null; scheduledEnd?: Date | null }): Promise<Booking | undefined> {
+    // Undefined when the farmer already has a free first consultation
+    const result = await this.db.insert(bookings).values(booking)
+      .onConflictDoNothing({ target: bookings.farmerId, where: sql`${bookings.freeFirstConsult}` })
+      .returning();
     return result[0];
   }
 
@@ -218,37 +397,381 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async updateBookingPaymentStatus(sessionId: string, status: "PENDING" | "PAID" | "FAILED"): Promise<Booking | undefined> {
+  async getBookingsByFarmerId(farmerId: number): Promise<Booking[]> {
+    const result = await this.db.select().from(bookings).where(eq(bookings.farmerId, farmerId)).orderBy(desc(bookings.timestamp));
+    return result;
+  }
+
+  // With fromStatuses, undefined when the booking's payment status was not one of them
+  async updateBookingPaymentStatus(sessionId: string, status: BookingPaymentStatus, fromStatuses?: readonly BookingPaymentStatus[]): Promise<Booking | undefined> {
+    const conditions = [eq(bookings.sessionId, sessionId)];
+    if (fromStatuses) conditions.push(inArray(bookings.paymentStatus, [...fromStatuses]));
+    
     const result = await this.db
       .update(bookings)
       .set({ paymentStatus: status })
-      .where(eq(bookings.sessionId, sessionId))
+      .where(and(...conditions))
       .returning();
     return result[0];
   }
 
-  async assignExpertToBooking(bookingId: number, expertId: number): Promise<Booking | undefined> {
-    const result = await this.db
-      .update(bookings)
-      .set({ expertId, assignedAt: new Date(), sessionStatus: "assigned" })
-      .where(eq(bookings.id, bookingId))
+  // Change status only if the booking is still in fromStatus, recording the event (and any expert payout) atomically
+  async transitionBookingStatus(
+    bookingId: number,
+    fromStatus: BookingSessionStatus,
+    toStatus: BookingSessionStatus,
+    updates: Partial<Pick<Booking, 'expertId' | 'assignedAt' | 'completedAt' | 'assignmentMethod' | 'assignmentReason' | 'scheduledStart' | 'scheduledEnd'>>,
+    event: Pick<BookingEvent, 'actorRole' | 'actorId' | 'reason' | 'details'>,
+    buildPayout?: (booking: Booking) => Parameters<IStorage['createExpertPayout']>[0] | undefined
+  ): Promise<Booking | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const result = await tx
+        .update(bookings)
+        .set({ ...updates, sessionStatus: toStatus })
+        .where(and(eq(bookings.id, bookingId), eq(bookings.sessionStatus, fromStatus)))
+        .returning();
+      if (!result[0]) return undefined;
+      await tx.insert(bookingEvents).values({ ...event, bookingId, fromStatus, toStatus });
+      const payout = buildPayout?.(result[0]);
+      if (payout) await tx.insert(expertPayouts).values(payout).onConflictDoNothing();
+      return result[0];
+    });
+  }
+
+  async getBookingEvents(bookingId: number): Promise<BookingEvent[]> {
+    return await this.db.select().from(bookingEvents)
+      .where(eq(bookingEvents.bookingId, bookingId))
+      .orderBy(bookingEvents.createdAt, bookingEvents.id);
+  }
+
+  // Booking Reviews
+  async createBookingReview(review: Pick<BookingReview, 'bookingId' | 'farmerId' | 'expertId' | 'rating' | 'review' | 'flagged'>): Promise<BookingReview> {
+    const result = await this.db.insert(bookingReviews).values(review).returning();
+    return result[0];
+  }
+
+  async getBookingReviewByBookingId(bookingId: number): Promise<BookingReview | undefined> {
+    const result = await this.db.select().from(bookingReviews).where(eq(bookingReviews.bookingId, bookingId)).limit(1);
+    return result[0];
+  }
+
+  async getReviewsByExpertId(expertId: number): Promise<BookingReview[]> {
+    return await this.db.select().from(bookingReviews)
+      .where(eq(bookingReviews.expertId, expertId))
+      .orderBy(desc(bookingReviews.createdAt));
+  }
+
+  async getReviews(filters: { flagged?: boolean; unresolvedOnly?: boolean; expertId?: number }): Promise<BookingReview[]> {
+    const conditions = [];
+    if (filters.flagged !== undefined) conditions.push(eq(bookingReviews.flagged, filters.flagged));
+    if (filters.unresolvedOnly) conditions.push(isNull(bookingReviews.resolvedAt));
+    if (filters.expertId) conditions.push(eq(bookingReviews.expertId, filters.expertId));
+    return await this.db.select().from(bookingReviews)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(bookingReviews.createdAt));
+  }
+
+  async resolveBookingReview(id: number, adminId: number, note: string | null): Promise<BookingReview | undefined> {
+    const result = await this.db.update(bookingReviews)
+      .set({ resolvedAt: new Date(), resolvedBy: adminId, resolutionNote: note })
+      .where(eq(bookingReviews.id, id))
       .returning();
     return result[0];
   }
 
-  async updateBookingSessionStatus(bookingId: number, status: string): Promise<Booking | undefined> {
-    const updates: Record<string, any> = { sessionStatus: status };
-    if (status === "completed") {
-      updates.completedAt = new Date();
-    }
-    const result = await this.db
-      .update(bookings)
-      .set(updates)
-      .where(eq(bookings.id, bookingId))
+  async getExpertRatingStats(): Promise<{ expertId: number; count: number; average: number }[]> {
+    const result = await this.db.select({
+      expertId: bookingReviews.expertId,
+      count: sql<number>`COUNT(*)`,
+      average: sql<number>`AVG(${bookingReviews.rating})`,
+    })
+      .from(bookingReviews)
+      .groupBy(bookingReviews.expertId);
+    return result.map(r => ({ expertId: r.expertId, count: Number(r.count), average: Number(r.average) }));
+  }
+
+  // Consultation Notes
+  async getConsultationNoteByBookingId(bookingId: number): Promise<ConsultationNote | undefined> {
+    const result = await this.db.select().from(consultationNotes).where(eq(consultationNotes.bookingId, bookingId)).limit(1);
+    return result[0];
+  }
+
+  async upsertConsultationNote(bookingId: number, expertId: number, note: InsertConsultationNote, imageUrls: string[]): Promise<ConsultationNote> {
+    const values = {
+      expertId,
+      diagnosis: note.diagnosis,
+      prescriptions: JSON.stringify(note.prescriptions),
+      advice: note.advice || null,
+      followUpDate: note.followUpDate || null,
+      imageUrls: JSON.stringify(imageUrls),
+    };
+    const result = await this.db.insert(consultationNotes)
+      .values({ ...values, bookingId })
+      .onConflictDoUpdate({
+        target: consultationNotes.bookingId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Expert Payouts
+  // Returns undefined when the booking already has a ledger entry
+  async createExpertPayout(payout: Pick<ExpertPayout, 'expertId' | 'bookingId' | 'periodMonth' | 'grossAmount' | 'commissionPercent' | 'platformAmount' | 'expertAmount'>): Promise<ExpertPayout | undefined> {
+    const result = await this.db.insert(expertPayouts).values(payout).onConflictDoNothing().returning();
+    return result[0];
+  }
+
+  async getExpertPayouts(filters: { expertId?: number; fromMonth?: string; toMonth?: string; status?: string }): Promise<ExpertPayout[]> {
+    const conditions = [];
+    if (filters.expertId) conditions.push(eq(expertPayouts.expertId, filters.expertId));
+    if (filters.fromMonth) conditions.push(sql`${expertPayouts.periodMonth} >= ${filters.fromMonth}`);
+    if (filters.toMonth) conditions.push(sql`${expertPayouts.periodMonth} <= ${filters.toMonth}`);
+    if (filters.status) conditions.push(eq(expertPayouts.status, filters.status));
+    return await this.db.select().from(expertPayouts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(expertPayouts.periodMonth), expertPayouts.createdAt);
+  }
+
+  async settleExpertPayouts(expertId: number, periodMonth: string, adminId: number, reference: string): Promise<ExpertPayout[]> {
+    return await this.db.update(expertPayouts)
+      .set({ status: "settled", settledAt: new Date(), settledBy: adminId, settlementReference: reference })
+      .where(and(
+        eq(expertPayouts.expertId, expertId),
+        eq(expertPayouts.periodMonth, periodMonth),
+        eq(expertPayouts.status, "unsettled")
+      ))
+      .returning();
+  }
+
+  // Refunded bookings earn nothing; settled rows are left for manual adjustment
+  async voidExpertPayoutForBooking(bookingId: number): Promise<ExpertPayout | undefined> {
+    const result = await this.db.update(expertPayouts)
+      .set({ status: "void" })
+      .where(and(eq(expertPayouts.bookingId, bookingId), eq(expertPayouts.status, "unsettled")))
+      .returning();
+    return result[0];
+  }
+
+  // Pricing
+  async getConsultationFees(): Promise<ConsultationFee[]> {
+    return await this.db.select().from(consultationFees).orderBy(consultationFees.category, consultationFees.mode);
+  }
+
+  async getConsultationFee(category: string, mode: string): Promise<ConsultationFee | undefined> {
+    const result = await this.db.select().from(consultationFees)
+      .where(and(eq(consultationFees.category, category), eq(consultationFees.mode, mode)))
+      .limit(1);
+    return result[0];
+  }
+
+  async upsertConsultationFee(fee: InsertConsultationFee): Promise<ConsultationFee> {
+    const result = await this.db.insert(consultationFees)
+      .values(fee)
+      .onConflictDoUpdate({
+        target: [consultationFees.category, consultationFees.mode],
+        set: { amount: fee.amount, firstConsultFree: fee.firstConsultFree ?? false, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getExpertFeeOverrides(expertId: number): Promise<ExpertFeeOverride[]> {
+    return await this.db.select().from(expertFeeOverrides).where(eq(expertFeeOverrides.expertId, expertId));
+  }
+
+  async getExpertFeeOverride(expertId: number, mode: string): Promise<ExpertFeeOverride | undefined> {
+    const result = await this.db.select().from(expertFeeOverrides)
+      .where(and(eq(expertFeeOverrides.expertId, expertId), eq(expertFeeOverrides.mode, mode)))
+      .limit(1);
+    return result[0];
+  }
+
+  async upsertExpertFeeOverride(expertId: number, mode: string, amount: number): Promise<ExpertFeeOverride> {
+    const result = await this.db.insert(expertFeeOverrides)
+      .values({ expertId, mode, amount })
+      .onConflictDoUpdate({
+        target: [expertFeeOverrides.expertId, expertFeeOverrides.mode],
+        set: { amount, updatedAt: new Date() },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteExpertFeeOverride(expertId: number, mode: string): Promise<void> {
+    await this.db.delete(expertFeeOverrides)
+      .where(and(eq(expertFeeOverrides.expertId, expertId), eq(expertFeeOverrides.mode, mode)));
+  }
+
+  async getPromoCodes(): Promise<PromoCode[]> {
+    return await this.db.select().from(promoCodes).orderBy(desc(promoCodes.createdAt));
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const result = await this.db.select().from(promoCodes)
+      .where(eq(promoCodes.code, code.toUpperCase()))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPromoCode(promo: InsertPromoCode): Promise<PromoCode> {
+    const result = await this.db.insert(promoCodes).values(promo).returning();
+    return result[0];
+  }
+
+  async updatePromoCode(id: number, promo: Partial<InsertPromoCode>): Promise<PromoCode | undefined> {
+    const result = await this.db.update(promoCodes).set(promo).where(eq(promoCodes.id, id)).returning();
+    return result[0];
+  }
+
+  // False once the code has reached its usage limit
+  async incrementPromoCodeUsage(id: number): Promise<boolean> {
+    const result = await this.db.update(promoCodes)
+      .set({ usedCount: sql`${promoCodes.usedCount} + 1` })
+      .where(and(
+        eq(promoCodes.id, id),
+        sql`(${promoCodes.maxUses} IS NULL OR ${promoCodes.usedCount} < ${promoCodes.maxUses})`
+      ))
+      .returning({ id: promoCodes.id });
+    return result.length > 0;
+  }
+
+  // Payments
+  async createPayment(payment: Pick<Payment, 'bookingId' | 'provider' | 'providerOrderId' | 'amount' | 'currency'>): Promise<Payment> {
+    const statusHistory = JSON.stringify([{ status: "created", at: new Date().toISOString() }]);
+    const result = await this.db.insert(payments).values({ ...payment, statusHistory }).returning();
+    return result[0];
+  }
+
+  async getPaymentById(id: number): Promise<Payment | undefined> {
+    const result = await this.db.select().from(payments).where(eq(payments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getPaymentByProviderOrderId(providerOrderId: string): Promise<Payment | undefined> {
+    const result = await this.db.select().from(payments).where(eq(payments.providerOrderId, providerOrderId)).limit(1);
+    return result[0];
+  }
+
+  async getPaymentsByBookingId(bookingId: number): Promise<Payment[]> {
+    return await this.db.select().from(payments).where(eq(payments.bookingId, bookingId)).orderBy(desc(payments.createdAt));
+  }
+
+  // Appends to the status history in the same UPDATE; with fromStatuses, undefined when the payment has already moved on
+  async updatePaymentStatus(id: number, status: string, note?: string, updates?: Partial<Pick<Payment, 'providerPaymentId' | 'providerRefundId'>>, fromStatuses?: readonly string[]): Promise<Payment | undefined> {
+    const entry = JSON.stringify([{ status, at: new Date().toISOString(), ...(note && { note }) }]);
+    const conditions = [eq(payments.id, id)];
+    if (fromStatuses) conditions.push(inArray(payments.status, [...fromStatuses]));
+    
+    const result = await this.db.update(payments)
+      .set({
+        ...updates,
+        status,
+        statusHistory: sql`(${payments.statusHistory}::jsonb || ${entry}::jsonb)::text`,
+        updatedAt: new Date(),
+      })
+      .where(and(...conditions))
+      .returning();
+    return result[0];
+  }
+
+  // Expert Availability
+  async getExpertAvailability(expertId: number): Promise<ExpertAvailability[]> {
+    return await this.db.select().from(expertAvailability)
+      .where(eq(expertAvailability.expertId, expertId))
+      .orderBy(expertAvailability.dayOfWeek, expertAvailability.startTime);
+  }
+
+  async replaceExpertAvailability(expertId: number, windows: InsertExpertAvailability[]): Promise<ExpertAvailability[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(expertAvailability).where(eq(expertAvailability.expertId, expertId));
+      if (windows.length === 0) return [];
+      return await tx.insert(expertAvailability).values(windows.map(w => ({ ...w, expertId }))).returning();
+    });
+  }
+
+  async getExpertTimeOff(expertId: number, from?: Date): Promise<ExpertTimeOff[]> {
+    const conditions = [eq(expertTimeOff.expertId, expertId)];
+    if (from) conditions.push(sql`${expertTimeOff.endsAt} > ${from}`);
+    return await this.db.select().from(expertTimeOff).where(and(...conditions)).orderBy(expertTimeOff.startsAt);
+  }
+
+  async createExpertTimeOff(timeOff: Pick<ExpertTimeOff, 'expertId' | 'startsAt' | 'endsAt' | 'reason'>): Promise<ExpertTimeOff> {
+    const result = await this.db.insert(expertTimeOff).values(timeOff).returning();
+    return result[0];
+  }
+
+  async deleteExpertTimeOff(id: number, expertId: number): Promise<boolean> {
+    const result = await this.db.delete(expertTimeOff)
+      .where(and(eq(expertTimeOff.id, id), eq(expertTimeOff.expertId, expertId)))
       .returning();
+    return result.length > 0;
+  }
+
+  // Bookings whose scheduled slot overlaps [start, end)
+  async getScheduledBookingsBetween(start: Date, end: Date): Promise<Booking[]> {
+    return await this.db.select().from(bookings)
+      .where(and(sql`${bookings.scheduledStart} < ${end}`, sql`${bookings.scheduledEnd} > ${start}`))
+      .orderBy(bookings.scheduledStart);
+  }
+
+  // Run the task while holding a Postgres advisory lock, so it is serialized across every server instance
+  async withAdvisoryLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    return await this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${key}))`);
+      return await task();
+    });
+  }
+
+  // Booking Chat
+  async createBookingMessage(message: Pick<BookingMessage, 'bookingId' | 'senderRole' | 'senderId' | 'body' | 'attachmentUrl'>): Promise<BookingMessage> {
+    const result = await this.db.insert(bookingMessages).values(message).returning();
     return result[0];
   }
 
+  // Newest page first from the database, returned oldest-first for display
+  async getBookingMessages(bookingId: number, options: { beforeId?: number; limit?: number } = {}): Promise<BookingMessage[]> {
+    const conditions = [eq(bookingMessages.bookingId, bookingId)];
+    if (options.beforeId) conditions.push(sql`${bookingMessages.id} < ${options.beforeId}`);
+    const result = await this.db.select().from(bookingMessages)
+      .where(and(...conditions))
+      .orderBy(desc(bookingMessages.id))
+      .limit(options.limit || 50);
+    return result.reverse();
+  }
+
+  async getBookingMessageByAttachment(bookingId: number, attachmentUrl: string): Promise<BookingMessage | undefined> {
+    const result = await this.db.select().from(bookingMessages)
+      .where(and(eq(bookingMessages.bookingId, bookingId), eq(bookingMessages.attachmentUrl, attachmentUrl)))
+      .limit(1);
+    return result[0];
+  }
+
+  // Mark messages sent by the other participant as read
+  async markBookingMessagesRead(bookingId: number, readerRole: ChatParticipantRole, upToId?: number): Promise<BookingMessage[]> {
+    const conditions = [
+      eq(bookingMessages.bookingId, bookingId),
+      sql`${bookingMessages.senderRole} <> ${readerRole}`,
+      isNull(bookingMessages.readAt),
+    ];
+    if (upToId) conditions.push(sql`${bookingMessages.id} <= ${upToId}`);
+    return await this.db.update(bookingMessages)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+  }
+
+  async countUnreadBookingMessages(bookingId: number, readerRole: ChatParticipantRole): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`COUNT(*)` })
+      .from(bookingMessages)
+      .where(and(
+        eq(bookingMessages.bookingId, bookingId),
+        sql`${bookingMessages.senderRole} <> ${readerRole}`,
+        isNull(bookingMessages.readAt)
+      ));
+    return Number(result[0]?.count || 0);
+  }
+
   // Advisory Chats
   async createAdvisoryChat(chat: InsertAdvisoryChat): Promise<AdvisoryChat> {
     const result = await this.db.insert(advisoryChats).values(chat).returning();
@@ -260,6 +783,113 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async deleteAdvisoryChat(id: number): Promise<void> {
+    await this.db.delete(advisoryChats).where(eq(advisoryChats.id, id));
+  }
+
+  // Advisory Sessions
+  // Returns undefined when a session with this id was created first by a concurrent request
+  async createAdvisorySession(session: Pick<AdvisorySession, 'sessionId' | 'farmerId' | 'title' | 'advisoryType'>): Promise<AdvisorySession | undefined> {
+    const result = await this.db.insert(advisorySessions).values(session)
+      .onConflictDoNothing({ target: advisorySessions.sessionId })
+      .returning();
+    return result[0];
+  }
+
+  async getAdvisorySession(sessionId: string): Promise<AdvisorySession | undefined> {
+    const result = await this.db.select().from(advisorySessions).where(eq(advisorySessions.sessionId, sessionId));
+    return result[0];
+  }
+
+  async getAdvisorySessionsByFarmer(farmerId: number, options: { archived?: boolean } = {}): Promise<AdvisorySession[]> {
+    const conditions = [eq(advisorySessions.farmerId, farmerId)];
+    if (options.archived !== undefined) conditions.push(eq(advisorySessions.archived, options.archived));
+    return await this.db.select().from(advisorySessions)
+      .where(and(...conditions))
+      .orderBy(desc(advisorySessions.updatedAt));
+  }
+
+  async updateAdvisorySession(sessionId: string, updates: Partial<Pick<AdvisorySession, 'title' | 'archived' | 'farmerId'>>): Promise<AdvisorySession | undefined> {
+    const result = await this.db.update(advisorySessions)
+      .set(updates)
+      .where(eq(advisorySessions.sessionId, sessionId))
+      .returning();
+    return result[0];
+  }
+
+  async touchAdvisorySession(sessionId: string): Promise<void> {
+    await this.db.update(advisorySessions)
+      .set({ updatedAt: new Date() })
+      .where(eq(advisorySessions.sessionId, sessionId));
+  }
+
+  // Removes the session together with its messages
+  async deleteAdvisorySession(sessionId: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(advisoryChats).where(eq(advisoryChats.sessionId, sessionId));
+      const result = await tx.delete(advisorySessions).where(eq(advisorySessions.sessionId, sessionId)).returning();
+      return result.length > 0;
+    });
+  }
+
+  // Advisory Prompt Templates
+  async getPromptTemplates(filter: { promptKey?: string; language?: string } = {}): Promise<PromptTemplate[]> {
+    const conditions = [];
+    if (filter.promptKey) conditions.push(eq(promptTemplates.promptKey, filter.promptKey));
+    if (filter.language) conditions.push(eq(promptTemplates.language, filter.language));
+    return await this.db.select().from(promptTemplates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(promptTemplates.promptKey, promptTemplates.language, desc(promptTemplates.version));
+  }
+
+  async getPromptTemplateById(id: number): Promise<PromptTemplate | undefined> {
+    const result = await this.db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return result[0];
+  }
+
+  async getActivePromptTemplate(promptKey: string, language: string): Promise<PromptTemplate | undefined> {
+    const result = await this.db.select().from(promptTemplates)
+      .where(and(
+        eq(promptTemplates.promptKey, promptKey),
+        eq(promptTemplates.language, language),
+        eq(promptTemplates.isActive, true)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPromptTemplateVersion(
+    template: Pick<PromptTemplate, 'promptKey' | 'language' | 'body' | 'changeNote' | 'createdBy'>,
+    activate: boolean
+  ): Promise<PromptTemplate> {
+    return await this.db.transaction(async (tx) => {
+      const latest = await tx.select({ version: sql<number>`max(${promptTemplates.version})` }).from(promptTemplates)
+        .where(and(eq(promptTemplates.promptKey, template.promptKey), eq(promptTemplates.language, template.language)));
+      if (activate) {
+        await tx.update(promptTemplates).set({ isActive: false })
+          .where(and(eq(promptTemplates.promptKey, template.promptKey), eq(promptTemplates.language, template.language)));
+      }
+      const result = await tx.insert(promptTemplates).values({
+        ...template,
+        version: Number(latest[0]?.version ?? 0) + 1,
+        isActive: activate,
+      }).returning();
+      return result[0];
+    });
+  }
+
+  // Make one version the live one for its prompt/language (also used to roll back)
+  async activatePromptTemplate(id: number): Promise<PromptTemplate | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [template] = await tx.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+      if (!template) return undefined;
+      await tx.update(promptTemplates).set({ isActive: false })
+        .where(and(eq(promptTemplates.promptKey, template.promptKey), eq(promptTemplates.language, template.language)));
+      const result = await tx.update(promptTemplates).set({ isActive: true }).where(eq(promptTemplates.id, id)).returning();
+      return result[0];
+    });
+  }
+
   // Market Prices
   async upsertMarketPrice(price: Omit<MarketPrice, 'id' | 'updatedAt'>): Promise<MarketPrice> {
     const existing = await this.db.select().from(marketPrices)
@@ -470,6 +1100,24 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => ({ category: r.category, total: Number(r.total) }));
   }
 
+  async reassignAccountBook(fromFarmerId: string, toFarmerId: string): Promise<{ expenses: number, incomes: number, crops: number }> {
+    return await this.db.transaction(async (tx) => {
+      const movedExpenses = await tx.update(expenses)
+        .set({ farmerId: toFarmerId })
+        .where(eq(expenses.farmerId, fromFarmerId))
+        .returning({ id: expenses.id });
+      const movedIncomes = await tx.update(incomes)
+        .set({ farmerId: toFarmerId })
+        .where(eq(incomes.farmerId, fromFarmerId))
+        .returning({ id: incomes.id });
+      const movedCrops = await tx.update(cropTracking)
+        .set({ farmerId: toFarmerId })
+        .where(eq(cropTracking.farmerId, fromFarmerId))
+        .returning({ id: cropTracking.id });
+      return { expenses: movedExpenses.length, incomes: movedIncomes.length, crops: movedCrops.length };
+    });
+  }
+
   // ============ LEARNING MODULE ============
 
   async getLearningContent(type?: string, category?: string, query?: string): Promise<LearningContent[]> {
@@ -509,6 +1157,23 @@ export class DatabaseStorage implements IStorage {
       .where(eq(learningContent.id, id));
   }
 
+  // Admin listing includes soft-deleted (inactive) content
+  async getAllLearningContent(): Promise<LearningContent[]> {
+    return await this.db.select()
+      .from(learningContent)
+      .orderBy(desc(learningContent.createdAt));
+  }
+
+  async updateLearningContent(id: number, content: Partial<InsertLearningContent>): Promise<LearningContent | undefined> {
+    const result = await this.db.update(learningContent).set(content).where(eq(learningContent.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteLearningContent(id: number): Promise<void> {
+    await this.db.delete(learningProgress).where(eq(learningProgress.contentId, id));
+    await this.db.delete(learningContent).where(eq(learningContent.id, id));
+  }
+
   // Workshops
   async getWorkshops(): Promise<Workshop[]> {
     return await this.db.select()
@@ -527,6 +1192,17 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getAllWorkshops(): Promise<Workshop[]> {
+    return await this.db.select()
+      .from(workshops)
+      .orderBy(desc(workshops.scheduledAt));
+  }
+
+  async updateWorkshop(id: number, workshop: Partial<InsertWorkshop> & { status?: string }): Promise<Workshop | undefined> {
+    const result = await this.db.update(workshops).set(workshop).where(eq(workshops.id, id)).returning();
+    return result[0];
+  }
+
   async registerForWorkshop(registration: InsertWorkshopRegistration): Promise<WorkshopRegistration> {
     const result = await this.db.insert(workshopRegistrations).values(registration).returning();
     // Update registered count
@@ -566,7 +1242,7 @@ export class DatabaseStorage implements IStorage {
     const existing = await this.db.select()
       .from(learningProgress)
       .where(and(
-        eq(learningProgress.farmerId, progress.farmerId || "default"),
+        eq(learningProgress.farmerId, progress.farmerId!),
         eq(learningProgress.contentId, progress.contentId),
         eq(learningProgress.contentType, progress.contentType)
       ))
@@ -693,6 +1369,174 @@ export class DatabaseStorage implements IStorage {
     await this.db.delete(farmers).where(eq(farmers.id, id));
   }
 
+  async updateFarmerOutbreakAlerts(id: number, enabled: boolean): Promise<Farmer | undefined> {
+    const result = await this.db.update(farmers).set({ outbreakAlerts: enabled }).where(eq(farmers.id, id)).returning();
+    return result[0];
+  }
+
+  async getFarmersForOutbreakAlerts(state: string, district: string): Promise<Farmer[]> {
+    return await this.db.select().from(farmers)
+      .where(and(
+        eq(farmers.outbreakAlerts, true),
+        eq(farmers.isActive, true),
+        sql`LOWER(${farmers.state}) = LOWER(${state})`,
+        sql`LOWER(${farmers.district}) = LOWER(${district})`
+      ));
+  }
+
+  // ============ OUTBREAK SURVEILLANCE ============
+
+  // One report per diagnosed chat message; repeats are ignored
+  async createDiagnosisReport(report: Omit<DiagnosisReport, 'id' | 'createdAt'>): Promise<DiagnosisReport | undefined> {
+    const result = await this.db.insert(diagnosisReports).values(report).onConflictDoNothing().returning();
+    return result[0];
+  }
+
+  async countDiagnosisReportsByWeek(fromWeek: string): Promise<{ state: string; district: string; conditionKey: string; condition: string; subject: string; weekStart: string; cases: number }[]> {
+    // A case is a farmer, so repeat photos and follow-ups from one farm count once
+    return await this.db.select({
+      state: sql<string>`min(${diagnosisReports.state})`,
+      district: sql<string>`min(${diagnosisReports.district})`,
+      conditionKey: diagnosisReports.conditionKey,
+      condition: sql<string>`min(${diagnosisReports.condition})`,
+      subject: sql<string>`min(${diagnosisReports.subject})`,
+      weekStart: diagnosisReports.weekStart,
+      cases: sql<number>`count(DISTINCT ${diagnosisReports.farmerId})::int`,
+    })
+      .from(diagnosisReports)
+      .where(sql`${diagnosisReports.weekStart} >= ${fromWeek}`)
+      .groupBy(sql`LOWER(${diagnosisReports.state})`, sql`LOWER(${diagnosisReports.district})`, diagnosisReports.conditionKey, diagnosisReports.weekStart);
+  }
+
+  async upsertOutbreakWeeklyStat(stat: Omit<OutbreakWeeklyStat, 'id' | 'alertedAt' | 'updatedAt'>): Promise<OutbreakWeeklyStat> {
+    const result = await this.db.insert(outbreakWeeklyStats)
+      .values(stat)
+      .onConflictDoUpdate({
+        target: [outbreakWeeklyStats.stateKey, outbreakWeeklyStats.districtKey, outbreakWeeklyStats.conditionKey, outbreakWeeklyStats.weekStart],
+        set: {
+          state: stat.state,
+          district: stat.district,
+          condition: stat.condition,
+          subject: stat.subject,
+          cases: stat.cases,
+          baselineCases: stat.baselineCases,
+          isSpike: stat.isSpike,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Only one caller wins the right to send a spike's alerts, even across instances
+  async claimOutbreakAlert(id: number): Promise<boolean> {
+    const result = await this.db.update(outbreakWeeklyStats)
+      .set({ alertedAt: new Date() })
+      .where(and(eq(outbreakWeeklyStats.id, id), isNull(outbreakWeeklyStats.alertedAt)))
+      .returning({ id: outbreakWeeklyStats.id });
+    return result.length > 0;
+  }
+
+  async getOutbreakWeeklyStats(filter: { fromWeek: string; state?: string; district?: string; spikesOnly?: boolean }): Promise<OutbreakWeeklyStat[]> {
+    const conditions = [sql`${outbreakWeeklyStats.weekStart} >= ${filter.fromWeek}`];
+    if (filter.state) conditions.push(sql`LOWER(${outbreakWeeklyStats.state}) = LOWER(${filter.state})`);
+    if (filter.district) conditions.push(sql`LOWER(${outbreakWeeklyStats.district}) = LOWER(${filter.district})`);
+    if (filter.spikesOnly) conditions.push(eq(outbreakWeeklyStats.isSpike, true));
+    return await this.db.select().from(outbreakWeeklyStats)
+      .where(and(...conditions))
+      .orderBy(desc(outbreakWeeklyStats.weekStart), desc(outbreakWeeklyStats.cases));
+  }
+
+  // ============ OTP CODES ============
+
+  async createOtpCode(otp: Pick<OtpCode, 'phone' | 'purpose' | 'codeHash' | 'requestIp' | 'expiresAt'>): Promise<OtpCode> {
+    const result = await this.db.insert(otpCodes).values(otp).returning();
+    return result[0];
+  }
+
+  async getActiveOtpCode(phone: string, purpose: string): Promise<OtpCode | undefined> {
+    const result = await this.db.select()
+      .from(otpCodes)
+      .where(and(
+        eq(otpCodes.phone, phone),
+        eq(otpCodes.purpose, purpose),
+        isNull(otpCodes.consumedAt)
+      ))
+      .orderBy(desc(otpCodes.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async countOtpCodesByPhoneSince(phone: string, since: Date): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`COUNT(*)` })
+      .from(otpCodes)
+      .where(and(eq(otpCodes.phone, phone), sql`${otpCodes.createdAt} >= ${since}`));
+    return Number(result[0]?.count || 0);
+  }
+
+  async countOtpCodesByIpSince(ip: string, since: Date): Promise<number> {
+    const result = await this.db.select({ count: sql<number>`COUNT(*)` })
+      .from(otpCodes)
+      .where(and(eq(otpCodes.requestIp, ip), sql`${otpCodes.createdAt} >= ${since}`));
+    return Number(result[0]?.count || 0);
+  }
+
+  // Claims one verify attempt; undefined once the code has used up its attempts
+  async incrementOtpAttempts(id: number, maxAttempts: number): Promise<OtpCode | undefined> {
+    const result = await this.db.update(otpCodes)
+      .set({ attempts: sql`${otpCodes.attempts} + 1` })
+      .where(and(eq(otpCodes.id, id), sql`${otpCodes.attempts} < ${maxAttempts}`))
+      .returning();
+    return result[0];
+  }
+
+  async markOtpVerified(id: number): Promise<void> {
+    await this.db.update(otpCodes)
+      .set({ verifiedAt: new Date() })
+      .where(eq(otpCodes.id, id));
+  }
+
+  async consumeOtpCodes(phone: string, purpose: string): Promise<void> {
+    await this.db.update(otpCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(
+        eq(otpCodes.phone, phone),
+        eq(otpCodes.purpose, purpose),
+        isNull(otpCodes.consumedAt)
+      ));
+  }
+
+  // ============ SMS MESSAGES ============
+
+  async createSmsMessage(message: Pick<SmsMessage, 'phone' | 'template' | 'language' | 'body' | 'provider'>): Promise<SmsMessage> {
+    const result = await this.db.insert(smsMessages).values(message).returning();
+    return result[0];
+  }
+
+  async updateSmsMessageStatus(id: number, update: { status: string; providerMessageId?: string | null; error?: string | null }): Promise<SmsMessage | undefined> {
+    const result = await this.db.update(smsMessages)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(smsMessages.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async updateSmsStatusByProviderId(providerMessageId: string, status: string, error?: string | null): Promise<SmsMessage | undefined> {
+    const result = await this.db.update(smsMessages)
+      .set({ status, error: error ?? null, updatedAt: new Date() })
+      .where(eq(smsMessages.providerMessageId, providerMessageId))
+      .returning();
+    return result[0];
+  }
+
+  async getRecentSmsMessages(limit: number = 100, phone?: string): Promise<SmsMessage[]> {
+    return await this.db.select()
+      .from(smsMessages)
+      .where(phone ? eq(smsMessages.phone, phone) : sql`TRUE`)
+      .orderBy(desc(smsMessages.createdAt))
+      .limit(limit);
+  }
+
   // ============ CONTENT SHARING ============
 
   async createContentShare(share: Omit<ContentShare, 'id' | 'createdAt' | 'accessCount'>): Promise<ContentShare> {
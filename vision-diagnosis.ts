@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { fromError } from "zod-validation-error";
+import { generateLlmText, type LlmMessage } from "./llm-provider";
+import {
+  visionDiagnosisSchema,
+  diagnosisConditionTypes,
+  diagnosisSeverities,
+  expertReferralUrgencies,
+  type AdvisoryChat,
+  type VisionDiagnosis,
+} from "@shared/schema";
+
+// The model answers with prose for the farmer plus a structured diagnosis the UI renders as cards
+const visionResponseSchema = z.object({
+  answer: z.string().trim().min(1),
+  diagnosis: visionDiagnosisSchema.nullable(),
+});
+
+export interface VisionResult {
+  answer: string;
+  diagnosis: VisionDiagnosis | null;
+}
+
+const options = (values: readonly string[]) => values.map(v => `"${v}"`).join(" | ");
+
+// Appended to the admin-editable vision prompt: the JSON shape is owned by code, not the template
+export const DIAGNOSIS_FORMAT_INSTRUCTIONS = `RESPONSE FORMAT:
+Reply with one JSON object and nothing else:
+{
+  "answer": "<your full advice for the farmer, in the language asked for above>",
+  "diagnosis": {
+    "subjectType": "crop" | "animal",
+    "subject": "<crop or animal, e.g. Tomato, Buffalo>",
+    "condition": "<most likely condition, or Healthy>",
+    "conditionType": ${options(diagnosisConditionTypes)},
+    "confidence": <number from 0 to 1>,
+    "severity": ${options(diagnosisSeverities)},
+    "organicTreatments": [{ "name": "...", "dose": "...", "instructions": "..." }],
+    "chemicalTreatments": [{ "name": "...", "dose": "...", "instructions": "..." }],
+    "expertReferral": { "contact": "vet" | "kvk", "urgency": ${options(expertReferralUrgencies)}, "reason": "..." }
+  }
+}
+Use "vet" for animals and "kvk" (Krishi Vigyan Kendra) for crops. Write the "diagnosis" fields in English.
+Set "diagnosis" to null if the photo does not show a crop or animal you can assess.`;
+
+const FALLBACK_ANSWER = "Sorry, I could not analyze the image. Please try again.";
+
+// Models sometimes wrap JSON in a ```json fence even when asked not to
+function extractJson(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
+
+export function parseVisionResponse(text: string): { result?: VisionResult; error?: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(text));
+  } catch {
+    return { error: "Reply was not valid JSON" };
+  }
+  const parsed = visionResponseSchema.safeParse(data);
+  if (!parsed.success) return { error: fromError(parsed.error).toString() };
+  return { result: parsed.data };
+}
+
+// Ask for a structured diagnosis; one repair round if the reply doesn't validate,
+// then fall back to whatever prose we got so the farmer still gets an answer
+export async function runVisionDiagnosis(messages: LlmMessage[]): Promise<VisionResult> {
+  const raw = await generateLlmText("vision", messages, { responseFormat: "json" });
+  const first = parseVisionResponse(raw);
+  if (first.result) return first.result;
+
+  console.error("Vision diagnosis did not validate:", first.error);
+  const retry = await generateLlmText("vision", [
+    ...messages,
+    { role: "assistant", content: raw },
+    { role: "user", content: `That reply did not match the required format (${first.error}). Reply again with only the JSON object.` },
+  ], { responseFormat: "json" });
+  const second = parseVisionResponse(retry);
+  if (second.result) return second.result;
+
+  console.error("Vision diagnosis retry did not validate:", second.error);
+  let answer: unknown;
+  try {
+    answer = JSON.parse(extractJson(retry))?.answer;
+  } catch {
+    answer = retry.trim().startsWith("{") ? null : retry;
+  }
+  return { answer: typeof answer === "string" && answer.trim() ? answer : FALLBACK_ANSWER, diagnosis: null };
+}
+
+// Stored diagnosis for API responses; rows from before structured diagnoses come back as null
+export function parseStoredDiagnosis(chat: AdvisoryChat): VisionDiagnosis | null {
+  if (!chat.diagnosis) return null;
+  try {
+    const parsed = visionDiagnosisSchema.safeParse(JSON.parse(chat.diagnosis));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+// Open-Meteo helpers (free, no API key) shared by /api/weather and the advisory context
+
+export interface DailyForecast {
+  date: string; // YYYY-MM-DD (IST)
+  tempMax: number;
+  tempMin: number;
+  rainProbability: number;
+  condition: string;
+}
+
+export interface LocationForecast {
+  location: string;
+  days: DailyForecast[];
+}
+
+const FORECAST_CACHE_TTL_MS = 60 * 60 * 1000; // forecasts only change a few times a day
+const FETCH_TIMEOUT_MS = 5000;
+
+const forecastCache = new Map<string, { forecast: LocationForecast | null; expiresAt: number }>();
+
+// Map weather codes to conditions
+export function getWeatherCondition(code: number): { main: string; description: string } {
+  if (code === 0) return { main: "Clear", description: "clear sky" };
+  if (code === 1) return { main: "Clear", description: "mainly clear" };
+  if (code === 2) return { main: "Clouds", description: "partly cloudy" };
+  if (code === 3) return { main: "Clouds", description: "overcast" };
+  if (code >= 45 && code <= 48) return { main: "Fog", description: "foggy" };
+  if (code >= 51 && code <= 55) return { main: "Drizzle", description: "drizzle" };
+  if (code >= 56 && code <= 57) return { main: "Drizzle", description: "freezing drizzle" };
+  if (code >= 61 && code <= 65) return { main: "Rain", description: "rain" };
+  if (code >= 66 && code <= 67) return { main: "Rain", description: "freezing rain" };
+  if (code >= 71 && code <= 77) return { main: "Snow", description: "snow" };
+  if (code >= 80 && code <= 82) return { main: "Rain", description: "rain showers" };
+  if (code >= 85 && code <= 86) return { main: "Snow", description: "snow showers" };
+  if (code >= 95 && code <= 99) return { main: "Thunderstorm", description: "thunderstorm" };
+  return { main: "Clear", description: "clear" };
+}
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Open-Meteo request failed with ${response.status}`);
+  return await response.json();
+}
+
+// Next few days' forecast for a farmer's district (or state); null when the place can't be found
+export async function getLocationForecast(district?: string | null, state?: string | null, days: number = 3): Promise<LocationForecast | null> {
+  const place = (district || state || "").trim();
+  if (!place) return null;
+
+  const cacheKey = `${place.toLowerCase()}|${(state || "").toLowerCase()}|${days}`;
+  const cached = forecastCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.forecast;
+
+  const geoData = await fetchJson(
+    `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(place)}&count=10&language=en&format=json`
+  );
+  const results: any[] = (geoData.results || []).filter((r: any) => r.country_code === "IN");
+  // Prefer the match in the farmer's state; district names repeat across states
+  const match = results.find(r => state && String(r.admin1 || "").toLowerCase() === state.toLowerCase()) || results[0];
+
+  let forecast: LocationForecast | null = null;
+  if (match) {
+    const weatherData = await fetchJson(
+      `https://api.open-meteo.com/v1/forecast?latitude=${match.latitude}&longitude=${match.longitude}&daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max&timezone=Asia/Kolkata&forecast_days=${days}`
+    );
+    const daily = weatherData.daily;
+    forecast = {
+      location: [match.name, match.admin1].filter(Boolean).join(", "),
+      days: (daily?.time || []).map((date: string, i: number) => ({
+        date,
+        tempMax: daily.temperature_2m_max[i],
+        tempMin: daily.temperature_2m_min[i],
+        rainProbability: daily.precipitation_probability_max[i] || 0,
+        condition: getWeatherCondition(daily.weather_code[i]).description,
+      })),
+    };
+  }
+
+  forecastCache.set(cacheKey, { forecast, expiresAt: Date.now() + FORECAST_CACHE_TTL_MS });
+  return forecast;
+}